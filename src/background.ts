@@ -1,4 +1,3 @@
-// oxlint-disable max-lines
 /**
  * Background Service Worker
  * 处理核心的标签页管理逻辑
@@ -11,49 +10,82 @@
  */
 
 import type {
-  StorageData,
-  TabGroup,
-  TabData,
   Statistics,
   MessageRequest,
   MessageResponse,
-  ExportFormat
+  ChromeTab,
+  ExcludeRule,
+  TabGroup
 } from './types/background.js';
 
-import { StorageManager, createResponse, generateId, formatDate, updateDataMetadata } from './utils/storage.js';
-import { TabManager } from './utils/tabs.js';
-import { syncManager } from './utils/sync/SyncManager.js';
-import { initializeSync, handleSyncMessages } from './background/syncIntegration.js';
-
-/**
- * 检查是否配置了远程同步并触发同步
- * 修复：不应该仅检查 providerConfig 是否为空，而应该检查提供商是否真正认证成功
- */
-async function triggerSyncIfEnabled(): Promise<void> {
-  try {
-    // 检查是否配置了远程同步提供商
-    const config = syncManager.config;
-    console.log('Checking sync config:', config);
-
-    // 修复：使用 isAuthenticated 方法检查是否真正配置了远程同步
-    // 而不是仅仅检查 providerConfig 是否为空对象
-    const isAuthenticated = await syncManager.isAuthenticated();
-    console.log('Is remote sync authenticated:', isAuthenticated);
-
-    if (!isAuthenticated) {
-      console.log('Remote sync not configured or not authenticated, skipping auto sync');
-      return; // 未配置远程同步或认证失败，跳过
-    }
-
-    console.log('Triggering auto sync after data change');
-    // 异步触发同步，不等待结果
-    syncManager.sync().catch((error) => {
-      console.log('Background sync failed:', error);
-    });
-  } catch (error) {
-    console.error('Error checking sync status:', error);
-  }
-}
+import {
+  StorageManager,
+  createResponse,
+  updateDataMetadata,
+  DATA_REVISION_KEY,
+  USER_SETTINGS_KEY
+} from './utils/storage.js';
+import { validateExcludeRule } from './utils/excludeRules.js';
+import { initializeSync, handleSyncMessages, syncNow, triggerSyncIfEnabled } from './background/syncIntegration.js';
+import { IDLE_ARCHIVE_ALARM, registerIdleTabListeners, scheduleIdleArchive } from './background/idleTabs.js';
+import { OVERFLOW_NOTIFICATION_PREFIX, isTabCapSuspended, takeUndoRecord } from './background/tabCap.js';
+import { handleContextMenuClick, refreshContextMenus } from './background/contextMenus.js';
+import {
+  buildOmniboxSuggestions,
+  handleOmniboxInput,
+  openTabList,
+  setDefaultOmniboxSuggestion
+} from './background/omnibox.js';
+import {
+  SNAPSHOT_ALARM,
+  deleteSnapshot,
+  getSnapshots,
+  registerSnapshotListeners,
+  restoreSnapshot,
+  scheduleSnapshots,
+  snapshotToGroups,
+  takeSnapshot
+} from './background/snapshots.js';
+import { RESTORE_RESUME_ALARM, registerRestoreProgressPort, resumeRestoreJobs } from './background/restoreJobs.js';
+import {
+  aggregateAllWindowsTabs,
+  aggregateByDomain,
+  aggregateCurrentWindowTabs,
+  appendToGroup
+} from './background/aggregate.js';
+import {
+  getSavedGroupStyle,
+  getWindows,
+  recordTabsOpened,
+  resolveRestoreTarget,
+  restoreAndRemove,
+  restoreBatch,
+  restoreLastGroup,
+  restoreTab,
+  restoreTabs
+} from './background/restore.js';
+import { archiveIdleTabs, archiveOverflowTabs, undoOverflowArchive } from './background/archive.js';
+import {
+  createGroup,
+  deleteGroup,
+  toggleGroupLock,
+  updateGroupAppearance,
+  updateGroupName
+} from './background/groups.js';
+import { restoreByTag, updateGroupTags, updateTabTags } from './background/tags.js';
+import {
+  createFolder,
+  deleteFolder,
+  moveFolder,
+  moveGroup,
+  renameFolder,
+  restoreFolder,
+  setFolderLocked
+} from './background/folders.js';
+import { exportData, importData } from './background/dataTransfer.js';
+
+/** 上限检查队列，保证同一时间只有一次检查在执行 */
+let tabCapQueue: Promise<void> = Promise.resolve();
 
 // ==================== 初始化和事件监听 ====================
 
@@ -65,245 +97,192 @@ chrome.runtime.onInstalled.addListener(async (): Promise<void> => {
   console.log('Uni Tab installed');
 
   try {
+    // 升级扩展后先迁移旧版本写入的数据
+    await migrateStoredData();
     await StorageManager.initialize();
     // 初始化同步系统
     await initializeSync();
+    // 根据设置创建闲置标签页检查定时器
+    await scheduleIdleArchive(await StorageManager.getUserSettings());
+    // 创建右键菜单
+    await refreshContextMenus();
+    // 开始定时记录会话快照
+    await scheduleSnapshots();
   } catch (error) {
     console.error('Failed to initialize storage or sync:', error);
   }
 });
 
 /**
- * 监听插件图标点击事件
- * 如果点击时没有popup（比如在某些特殊页面），则直接执行聚合操作
+ * 浏览器启动时迁移数据，并确保定时器与设置一致
  */
-chrome.action.onClicked.addListener(async (tab: chrome.tabs.Tab): Promise<void> => {
-  await aggregateCurrentWindowTabs();
+chrome.runtime.onStartup.addListener(async (): Promise<void> => {
+  await migrateStoredData();
+  await scheduleIdleArchive(await StorageManager.getUserSettings());
+  await scheduleSnapshots();
 });
 
-// ==================== 核心功能函数 ====================
-
 /**
- * 聚合当前窗口的标签页
- * 将符合条件的标签页保存为一个分组，并关闭这些标签页
+ * 迁移已存储的数据
+ * 失败时（如数据由更新版本的扩展写入）保持数据原样，不影响其他初始化
  */
-async function aggregateCurrentWindowTabs(): Promise<void> {
+async function migrateStoredData(): Promise<void> {
   try {
-    // 获取当前窗口的所有标签页
-    const tabs = await TabManager.getCurrentWindowTabs();
-
-    // 获取存储数据和排除列表
-    const data = await StorageManager.getData();
-    const excludeList = data.settings.excludeList || [];
-
-    // 过滤可保存的标签页
-    const tabsToSave = TabManager.filterSaveableTabs(tabs, excludeList);
-
-    if (tabsToSave.length === 0) {
-      console.log('No tabs to save');
-      return;
-    }
-
-    // 创建新的标签页分组
-    const newGroup: TabGroup = {
-      id: generateId(),
-      name: `标签页分组 - ${formatDate(new Date())}`,
-      createdAt: new Date().toISOString(),
-      pinned: false,
-      locked: false,
-      tabs: TabManager.chromeTabsToTabData(tabsToSave)
-    };
-
-    // 保存到存储
-    data.groups.unshift(newGroup); // 添加到开头
-
-    // 更新元数据
-    updateDataMetadata(data);
-
-    await StorageManager.setData(data);
-
-    // 关闭已保存的标签页
-    const tabIdsToClose = tabsToSave.map((tab) => tab.id).filter(Boolean) as number[];
-    await TabManager.closeTabs(tabIdsToClose);
-
-    // 打开标签页列表页面
-    await chrome.tabs.create({ url: chrome.runtime.getURL('tab_list.html') });
-
-    console.log(`Saved ${tabsToSave.length} tabs to group: ${newGroup.name}`);
-
-    // 触发实时同步
-    await triggerSyncIfEnabled();
+    await StorageManager.migrate();
   } catch (error) {
-    console.error('Error aggregating tabs:', error);
+    console.error('Storage migration skipped:', error);
   }
 }
 
 /**
- * 恢复标签页
- * @param tabs 要恢复的标签页列表
- * @param openInNewWindow 是否在新窗口中打开
+ * 用户设置变化时重新调度定时器，分组数据变化时刷新右键菜单
  */
-async function restoreTabs(tabs: TabData[], openInNewWindow = false): Promise<void> {
-  try {
-    await TabManager.restoreTabs(tabs, openInNewWindow);
-  } catch (error) {
-    console.error('Error restoring tabs:', error);
-    throw error;
+chrome.storage.onChanged.addListener(
+  (changes: Record<string, chrome.storage.StorageChange>, areaName: string): void => {
+    if (areaName !== 'local') {
+      return;
+    }
+    if (changes[USER_SETTINGS_KEY]) {
+      StorageManager.getUserSettings().then(scheduleIdleArchive);
+    }
+    if (changes[DATA_REVISION_KEY]) {
+      refreshContextMenus();
+    }
   }
-}
-
-// ==================== 分组管理函数 ====================
+);
 
 /**
- * 创建新分组
- * @param name 分组名称
- * @param tabs 标签页列表
+ * 定时器触发
  */
-async function createGroup(name?: string, tabs: TabData[] = []): Promise<void> {
-  try {
-    const data = await StorageManager.getData();
-    const newGroup: TabGroup = {
-      id: generateId(),
-      name: name || `标签页分组 - ${formatDate(new Date())}`,
-      createdAt: new Date().toISOString(),
-      pinned: false,
-      locked: false,
-      tabs: tabs.map(
-        (tab: TabData): TabData => ({
-          id: tab.id,
-          title: tab.title,
-          url: tab.url,
-          favIconUrl: tab.favIconUrl || generateFavIconUrl(tab.url)
-        })
-      )
-    };
-
-    data.groups.unshift(newGroup);
+chrome.alarms.onAlarm.addListener(async (alarm: chrome.alarms.Alarm): Promise<void> => {
+  switch (alarm.name) {
+    case IDLE_ARCHIVE_ALARM:
+      await archiveIdleTabs();
+      break;
+    case SNAPSHOT_ALARM:
+      await takeSnapshot();
+      break;
+    case RESTORE_RESUME_ALARM:
+      resumeRestoreJobs();
+      break;
+    default:
+      console.log(`Unknown alarm: ${alarm.name}`);
+  }
+});
 
-    // 更新元数据
-    updateDataMetadata(data);
+// 记录标签页活跃时间，用于检测闲置标签页
+registerIdleTabListeners();
 
-    await StorageManager.setData(data);
+// 维护当前窗口状态，用于在窗口关闭时记录会话快照
+registerSnapshotListeners();
 
-    // 关闭已保存的标签页（如果有ID）
-    const tabIdsToClose = tabs.map((tab) => tab.id).filter(Boolean) as number[];
-    if (tabIdsToClose.length > 0) {
-      await TabManager.closeTabs(tabIdsToClose);
-    }
+// 向页面报告恢复进度，并继续执行 Service Worker 挂起前未完成的恢复作业
+registerRestoreProgressPort();
+resumeRestoreJobs();
 
-    console.log(`Created group: ${newGroup.name}`);
-
-    // 触发实时同步
-    // 触发同步（如果启用）
-    await triggerSyncIfEnabled();
-  } catch (error) {
-    console.error('Error creating group:', error);
-    throw error;
+/**
+ * 新建标签页时检查窗口标签页数量上限
+ * 检查串行执行，避免连续打开多个标签页时重复归档同一批标签页
+ */
+chrome.tabs.onCreated.addListener((tab: chrome.tabs.Tab): void => {
+  if (isTabCapSuspended()) {
+    return;
   }
-}
+  tabCapQueue = tabCapQueue.then(() => archiveOverflowTabs(tab.windowId));
+});
 
 /**
- * 更新分组名称
- * @param groupId 分组ID
- * @param newName 新名称
+ * 点击溢出归档通知上的撤销按钮
  */
-async function updateGroupName(groupId: number, newName: string): Promise<void> {
-  try {
-    const data = await StorageManager.getData();
-    const group = data.groups.find((g: TabGroup) => g.id === groupId);
-
-    if (!group) {
-      throw new Error('分组不存在');
-    }
-
-    if (group.locked) {
-      throw new Error('无法修改已锁定的分组');
-    }
-
-    group.name = newName;
-
-    // 更新元数据
-    updateDataMetadata(data);
-
-    await StorageManager.setData(data);
-
-    console.log(`Updated group name: ${groupId} -> ${newName}`);
-
-    // 触发实时同步
-    // 触发同步（如果启用）
-    await triggerSyncIfEnabled();
-  } catch (error) {
-    console.error('Error updating group name:', error);
-    throw error;
+chrome.notifications.onButtonClicked.addListener(async (notificationId: string): Promise<void> => {
+  if (notificationId.startsWith(OVERFLOW_NOTIFICATION_PREFIX)) {
+    await undoOverflowArchive(notificationId);
   }
-}
+});
 
 /**
- * 切换分组锁定状态
- * @param groupId 分组ID
+ * 溢出归档通知关闭后丢弃对应的撤销记录
  */
-async function toggleGroupLock(groupId: number): Promise<void> {
-  try {
-    const data = await StorageManager.getData();
-    const group = data.groups.find((g: TabGroup) => g.id === groupId);
-
-    if (!group) {
-      throw new Error('分组不存在');
-    }
-
-    group.locked = !group.locked;
-
-    // 更新元数据
-    updateDataMetadata(data);
-
-    await StorageManager.setData(data);
+chrome.notifications.onClosed.addListener(async (notificationId: string): Promise<void> => {
+  if (notificationId.startsWith(OVERFLOW_NOTIFICATION_PREFIX)) {
+    await takeUndoRecord(notificationId);
+  }
+});
 
-    console.log(`Toggled group lock: ${groupId} -> ${group.locked ? 'locked' : 'unlocked'}`);
+/**
+ * 监听插件图标点击事件
+ * 如果点击时没有popup（比如在某些特殊页面），则直接执行聚合操作
+ */
+chrome.action.onClicked.addListener(async (tab: chrome.tabs.Tab): Promise<void> => {
+  await aggregateCurrentWindowTabs();
+});
 
-    // 触发实时同步
-    // 触发同步（如果启用）
-    await triggerSyncIfEnabled();
-  } catch (error) {
-    console.error('Error toggling group lock:', error);
-    throw error;
+/**
+ * 监听右键菜单点击
+ */
+chrome.contextMenus.onClicked.addListener(
+  async (info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab): Promise<void> => {
+    await handleContextMenuClick(info, tab as ChromeTab | undefined);
   }
-}
+);
 
 /**
- * 删除分组
- * @param groupId 分组ID
+ * 地址栏关键字：开始输入时设置默认建议
  */
-async function deleteGroup(groupId: number): Promise<void> {
-  try {
-    const data = await StorageManager.getData();
-    const groupIndex = data.groups.findIndex((g: TabGroup) => g.id === groupId);
-
-    if (groupIndex === -1) {
-      throw new Error('分组不存在');
-    }
+chrome.omnibox.onInputStarted.addListener((): void => {
+  setDefaultOmniboxSuggestion();
+});
 
-    const group = data.groups[groupIndex];
-    if (group.locked) {
-      throw new Error('无法删除已锁定的分组');
+/**
+ * 地址栏关键字：根据输入内容生成建议
+ */
+chrome.omnibox.onInputChanged.addListener(
+  async (text: string, suggest: (suggestResults: chrome.omnibox.SuggestResult[]) => void): Promise<void> => {
+    try {
+      const data = await StorageManager.getData();
+      suggest(buildOmniboxSuggestions(data.groups, text));
+    } catch (error) {
+      console.error('Error building omnibox suggestions:', error);
     }
+  }
+);
 
-    data.groups.splice(groupIndex, 1);
-
-    // 更新元数据
-    updateDataMetadata(data);
-
-    await StorageManager.setData(data);
-
-    console.log(`Deleted group: ${groupId}`);
+/**
+ * 地址栏关键字：选中建议或直接回车
+ */
+chrome.omnibox.onInputEntered.addListener(
+  async (text: string, disposition: chrome.omnibox.OnInputEnteredDisposition): Promise<void> => {
+    await handleOmniboxInput(text, disposition);
+  }
+);
 
-    // 触发实时同步
-    // 触发同步（如果启用）
-    await triggerSyncIfEnabled();
-  } catch (error) {
-    console.error('Error deleting group:', error);
-    throw error;
+/**
+ * 监听键盘快捷键命令
+ */
+chrome.commands.onCommand.addListener(async (command: string): Promise<void> => {
+  switch (command) {
+    case 'aggregate-window':
+      await aggregateCurrentWindowTabs();
+      break;
+    case 'aggregate-selection':
+      await aggregateCurrentWindowTabs('highlighted');
+      break;
+    case 'aggregate-all-windows':
+      await aggregateAllWindowsTabs();
+      break;
+    case 'restore-last-group':
+      await restoreLastGroup();
+      break;
+    case 'open-tab-list':
+      await openTabList();
+      break;
+    case 'sync-now':
+      await syncNow();
+      break;
+    default:
+      console.log(`Unknown command: ${command}`);
   }
-}
+});
 
 // ==================== 统计和数据管理函数 ====================
 
@@ -331,94 +310,29 @@ async function getStatistics(): Promise<Statistics> {
 }
 
 /**
- * 导出数据
- * @param format 导出格式（json 或 csv）
- */
-async function exportData(format: ExportFormat): Promise<void> {
-  try {
-    const data = await StorageManager.getData();
-    let content: string;
-    let filename: string;
-    let mimeType: string;
-
-    const dateStr = new Date().toISOString().split('T')[0];
-
-    if (format === 'json') {
-      content = JSON.stringify(data, null, 2);
-      filename = `tab-sorter-backup-${dateStr}.json`;
-      mimeType = 'application/json';
-    } else if (format === 'csv') {
-      const csvRows = ['分组名称,标签标题,URL,创建时间,是否锁定'];
-      data.groups.forEach((group: TabGroup) => {
-        group.tabs.forEach((tab: TabData) => {
-          const row = [
-            `"${group.name}"`,
-            `"${tab.title}"`,
-            `"${tab.url}"`,
-            `"${group.createdAt}"`,
-            `"${group.locked ? '是' : '否'}"`
-          ].join(',');
-          csvRows.push(row);
-        });
-      });
-      content = csvRows.join('\n');
-      filename = `tab-sorter-backup-${dateStr}.csv`;
-      mimeType = 'text/csv';
-    } else {
-      throw new Error('不支持的导出格式');
-    }
-
-    // 创建下载
-    const blob = new Blob([content], { type: mimeType });
-    const url = URL.createObjectURL(blob);
-
-    await chrome.downloads.download({
-      url: url,
-      filename: filename
-    });
-
-    console.log(`Exported data as ${format}: ${filename}`);
-  } catch (error) {
-    console.error('Error exporting data:', error);
-    throw error;
-  }
-}
-
-/**
- * 导入数据
- * @param importedData 要导入的数据
+ * 更新排除规则
+ * @param rules 新的排除规则列表
  */
-async function importData(importedData: Partial<StorageData>): Promise<void> {
+async function updateExcludeRules(rules: ExcludeRule[]): Promise<void> {
   try {
-    // 验证数据格式
-    if (!importedData.groups || !Array.isArray(importedData.groups)) {
-      throw new Error('无效的数据格式');
+    for (const rule of rules) {
+      const validationError = validateExcludeRule(rule);
+      if (validationError) {
+        throw new Error(validationError);
+      }
     }
 
-    const currentData = await StorageManager.getData();
-
-    // 合并数据，避免ID冲突
-    const maxId = Math.max(0, ...currentData.groups.map((g: TabGroup) => g.id));
-    importedData.groups.forEach((group: TabGroup, index: number) => {
-      group.id = maxId + index + 1;
-      group.createdAt = group.createdAt || new Date().toISOString();
-      group.locked = group.locked || false;
-    });
-
-    currentData.groups.push(...importedData.groups);
-
-    // 更新元数据
-    updateDataMetadata(currentData);
+    const data = await StorageManager.getData();
+    data.settings = { ...data.settings, excludeRules: rules };
 
-    await StorageManager.setData(currentData);
+    await StorageManager.setData(updateDataMetadata(data));
 
-    console.log(`Imported ${importedData.groups.length} groups`);
+    console.log(`Updated ${rules.length} exclude rules`);
 
-    // 触发实时同步
     // 触发同步（如果启用）
     await triggerSyncIfEnabled();
   } catch (error) {
-    console.error('Error importing data:', error);
+    console.error('Error updating exclude rules:', error);
     throw error;
   }
 }
@@ -441,22 +355,6 @@ async function clearAllData(): Promise<void> {
   }
 }
 
-// ==================== 工具函数 ====================
-
-/**
- * 生成网站图标URL
- * @param url 网站URL
- * @returns 图标URL
- */
-function generateFavIconUrl(url: string): string {
-  try {
-    const hostname = new URL(url).hostname;
-    return `https://www.google.com/s2/favicons?sz=64&domain_url=${hostname}`;
-  } catch {
-    return '';
-  }
-}
-
 // ==================== 消息处理 ====================
 
 /**
@@ -478,6 +376,36 @@ chrome.runtime.onMessage.addListener(
             sendResponse(createResponse(true));
             break;
 
+          case 'aggregateHighlighted':
+            await aggregateCurrentWindowTabs('highlighted');
+            sendResponse(createResponse(true));
+            break;
+
+          case 'aggregateLeft':
+            await aggregateCurrentWindowTabs('left');
+            sendResponse(createResponse(true));
+            break;
+
+          case 'aggregateRight':
+            await aggregateCurrentWindowTabs('right');
+            sendResponse(createResponse(true));
+            break;
+
+          case 'aggregateOthers':
+            await aggregateCurrentWindowTabs('others');
+            sendResponse(createResponse(true));
+            break;
+
+          case 'aggregateByDomain':
+            await aggregateByDomain(request.domainSplit);
+            sendResponse(createResponse(true));
+            break;
+
+          case 'aggregateAllWindows':
+            await aggregateAllWindowsTabs();
+            sendResponse(createResponse(true));
+            break;
+
           case 'getData':
             const data = await StorageManager.getData();
             sendResponse(createResponse(true, data));
@@ -495,8 +423,59 @@ chrome.runtime.onMessage.addListener(
             if (!request.tabs) {
               throw new Error('缺少标签页参数');
             }
-            await restoreTabs(request.tabs, request.openInNewWindow);
-            sendResponse(createResponse(true));
+            const restoreJobId = await restoreTabs(
+              request.tabs,
+              {
+                ...(await resolveRestoreTarget(request)),
+                nativeGroups: request.nativeGroups,
+                groupStyle: typeof request.groupId === 'string' ? await getSavedGroupStyle(request.groupId) : undefined,
+                dedupe: request.dedupe,
+                lazy: request.lazy
+              },
+              request.name
+            );
+            // 从已保存的分组恢复时记录标签页的打开情况
+            if (typeof request.groupId === 'string') {
+              await recordTabsOpened(
+                [request.groupId],
+                request.tabs.map((tab) => tab.uid)
+              );
+            }
+            sendResponse(createResponse(true, restoreJobId));
+            break;
+
+          case 'restoreTab':
+            if (typeof request.groupId !== 'string' || typeof request.tabUid !== 'string') {
+              throw new Error('缺少分组ID或标签页ID参数');
+            }
+            sendResponse(createResponse(true, await restoreTab(request.groupId, request.tabUid)));
+            break;
+
+          case 'restoreAndRemove':
+            if (typeof request.groupId !== 'string') {
+              throw new Error('缺少分组ID参数');
+            }
+            sendResponse(
+              createResponse(
+                true,
+                await restoreAndRemove(request.groupId, {
+                  ...(await resolveRestoreTarget(request)),
+                  dedupe: request.dedupe,
+                  lazy: request.lazy
+                })
+              )
+            );
+            break;
+
+          case 'restoreBatch':
+            if (typeof request.batchId !== 'number') {
+              throw new Error('缺少批次ID参数');
+            }
+            sendResponse(createResponse(true, await restoreBatch(request.batchId, request.lazy)));
+            break;
+
+          case 'getWindows':
+            sendResponse(createResponse(true, await getWindows()));
             break;
 
           case 'createGroup':
@@ -504,16 +483,130 @@ chrome.runtime.onMessage.addListener(
             sendResponse(createResponse(true));
             break;
 
+          case 'appendToGroup':
+            if (typeof request.groupId !== 'string') {
+              throw new Error('缺少分组ID参数');
+            }
+            const appendResult = await appendToGroup(request.groupId, request.tabs, request.skipDuplicates);
+            sendResponse(createResponse(true, appendResult));
+            break;
+
           case 'updateGroupName':
-            if (typeof request.groupId !== 'number' || !request.newName) {
+            if (typeof request.groupId !== 'string' || !request.newName) {
               throw new Error('缺少必要参数');
             }
             await updateGroupName(request.groupId, request.newName);
             sendResponse(createResponse(true));
             break;
 
+          case 'updateGroupTags':
+            if (typeof request.groupId !== 'string' || !Array.isArray(request.tags)) {
+              throw new Error('缺少必要参数');
+            }
+            await updateGroupTags(request.groupId, request.tags);
+            sendResponse(createResponse(true));
+            break;
+
+          case 'updateGroupAppearance':
+            if (typeof request.groupId !== 'string') {
+              throw new Error('缺少分组ID参数');
+            }
+            await updateGroupAppearance(request.groupId, request.color, request.icon);
+            sendResponse(createResponse(true));
+            break;
+
+          case 'updateTabTags':
+            if (
+              typeof request.groupId !== 'string' ||
+              typeof request.tabUid !== 'string' ||
+              !Array.isArray(request.tags)
+            ) {
+              throw new Error('缺少必要参数');
+            }
+            await updateTabTags(request.groupId, request.tabUid, request.tags);
+            sendResponse(createResponse(true));
+            break;
+
+          case 'restoreByTag':
+            if (!request.tag) {
+              throw new Error('缺少标签参数');
+            }
+            sendResponse(
+              createResponse(
+                true,
+                await restoreByTag(request.tag, {
+                  openInNewWindow: request.openInNewWindow,
+                  dedupe: request.dedupe,
+                  lazy: request.lazy
+                })
+              )
+            );
+            break;
+
+          case 'createFolder':
+            if (!request.name) {
+              throw new Error('缺少文件夹名称参数');
+            }
+            sendResponse(createResponse(true, await createFolder(request.name, request.parentId)));
+            break;
+
+          case 'renameFolder':
+            if (typeof request.folderId !== 'string' || !request.newName) {
+              throw new Error('缺少必要参数');
+            }
+            await renameFolder(request.folderId, request.newName);
+            sendResponse(createResponse(true));
+            break;
+
+          case 'deleteFolder':
+            if (typeof request.folderId !== 'string') {
+              throw new Error('缺少文件夹ID参数');
+            }
+            await deleteFolder(request.folderId);
+            sendResponse(createResponse(true));
+            break;
+
+          case 'moveFolder':
+            if (typeof request.folderId !== 'string') {
+              throw new Error('缺少文件夹ID参数');
+            }
+            await moveFolder(request.folderId, request.parentId);
+            sendResponse(createResponse(true));
+            break;
+
+          case 'moveGroup':
+            if (typeof request.groupId !== 'string') {
+              throw new Error('缺少分组ID参数');
+            }
+            await moveGroup(request.groupId, request.folderId);
+            sendResponse(createResponse(true));
+            break;
+
+          case 'restoreFolder':
+            if (typeof request.folderId !== 'string') {
+              throw new Error('缺少文件夹ID参数');
+            }
+            sendResponse(
+              createResponse(
+                true,
+                await restoreFolder(request.folderId, {
+                  openInNewWindow: request.openInNewWindow,
+                  dedupe: request.dedupe,
+                  lazy: request.lazy
+                })
+              )
+            );
+            break;
+
+          case 'setFolderLocked':
+            if (typeof request.folderId !== 'string' || typeof request.locked !== 'boolean') {
+              throw new Error('缺少必要参数');
+            }
+            sendResponse(createResponse(true, await setFolderLocked(request.folderId, request.locked)));
+            break;
+
           case 'toggleGroupLock':
-            if (typeof request.groupId !== 'number') {
+            if (typeof request.groupId !== 'string') {
               throw new Error('缺少分组ID参数');
             }
             await toggleGroupLock(request.groupId);
@@ -521,7 +614,7 @@ chrome.runtime.onMessage.addListener(
             break;
 
           case 'deleteGroup':
-            if (typeof request.groupId !== 'number') {
+            if (typeof request.groupId !== 'string') {
               throw new Error('缺少分组ID参数');
             }
             await deleteGroup(request.groupId);
@@ -537,7 +630,7 @@ chrome.runtime.onMessage.addListener(
             if (!request.format) {
               throw new Error('缺少导出格式参数');
             }
-            await exportData(request.format);
+            await exportData(request.format, request.folderId);
             sendResponse(createResponse(true));
             break;
 
@@ -549,6 +642,43 @@ chrome.runtime.onMessage.addListener(
             sendResponse(createResponse(true));
             break;
 
+          case 'updateExcludeRules':
+            if (!Array.isArray(request.excludeRules)) {
+              throw new Error('缺少排除规则参数');
+            }
+            await updateExcludeRules(request.excludeRules);
+            sendResponse(createResponse(true));
+            break;
+
+          case 'getSnapshots':
+            sendResponse(createResponse(true, await getSnapshots()));
+            break;
+
+          case 'restoreSnapshot':
+            if (typeof request.snapshotId !== 'number') {
+              throw new Error('缺少快照ID参数');
+            }
+            sendResponse(
+              createResponse(true, await restoreSnapshot(request.snapshotId, request.windowIndex, request.lazy))
+            );
+            break;
+
+          case 'snapshotToGroups':
+            if (typeof request.snapshotId !== 'number') {
+              throw new Error('缺少快照ID参数');
+            }
+            const groupCount = await snapshotToGroups(request.snapshotId, request.windowIndex);
+            sendResponse(createResponse(true, groupCount));
+            break;
+
+          case 'deleteSnapshot':
+            if (typeof request.snapshotId !== 'number') {
+              throw new Error('缺少快照ID参数');
+            }
+            await deleteSnapshot(request.snapshotId);
+            sendResponse(createResponse(true));
+            break;
+
           case 'clearAllData':
             await clearAllData();
             sendResponse(createResponse(true));
@@ -0,0 +1,321 @@
+/**
+ * 保存标签页
+ * 将窗口中的标签页聚合为分组或追加到已有分组，各种保存方式共用标签页过滤和分组创建逻辑
+ */
+
+import type {
+  AggregateScope,
+  AppendResult,
+  ChromeTab,
+  DomainSplitOptions,
+  StorageData,
+  TabData,
+  TabGroup
+} from '../types/background';
+import { StorageManager, formatDate, generateId, generateUuid, updateDataMetadata } from '../utils/storage';
+import { GroupManager, TabManager } from '../utils/tabs';
+import { getExcludeRules } from '../utils/excludeRules';
+import { withTabCapSuspended } from './tabCap';
+import { triggerSyncIfEnabled } from './syncIntegration';
+
+/**
+ * 过滤可保存的标签页
+ * 应用排除规则以及"聚合时排除固定标签页"设置
+ * @param tabs 原始标签页列表
+ * @param data 当前存储数据
+ * @returns 可保存的标签页列表
+ */
+export async function filterTabsForSaving(tabs: ChromeTab[], data: StorageData): Promise<ChromeTab[]> {
+  const userSettings = await StorageManager.getUserSettings();
+  return TabManager.filterSaveableTabs(tabs, getExcludeRules(data.settings), !userSettings.excludePinnedTabs);
+}
+
+/**
+ * 记录新保存标签页的来源设备（保存时间和打开次数在转换标签页时已初始化）
+ * @param tabs 新保存的标签页
+ * @returns 传入的标签页
+ */
+export async function stampSourceDevice(tabs: TabData[]): Promise<TabData[]> {
+  const sourceDeviceId = await StorageManager.getDeviceId();
+  tabs.forEach((tab) => {
+    tab.sourceDeviceId = sourceDeviceId;
+  });
+  return tabs;
+}
+
+/**
+ * 根据Chrome标签页创建新的分组对象
+ * @param name 分组名称
+ * @param tabs 要保存的标签页
+ * @returns 新分组
+ */
+export async function buildTabGroup(name: string, tabs: ChromeTab[]): Promise<TabGroup> {
+  return {
+    id: generateUuid(),
+    name,
+    createdAt: new Date().toISOString(),
+    pinned: false,
+    locked: false,
+    tabs: await stampSourceDevice(TabManager.chromeTabsToTabData(tabs))
+  };
+}
+
+/**
+ * 保存聚合得到的分组并关闭已保存的标签页
+ * 所有聚合方式共用此存储路径
+ * @param data 当前存储数据
+ * @param groups 新分组列表（按顺序添加到开头）
+ * @param tabsToClose 需要关闭的标签页
+ */
+export async function saveAggregatedGroups(
+  data: StorageData,
+  groups: TabGroup[],
+  tabsToClose: ChromeTab[]
+): Promise<void> {
+  // 记录原生标签组信息，需在关闭标签页之前读取
+  for (const group of groups) {
+    group.nativeGroups = await TabManager.captureNativeGroups(group.tabs);
+  }
+
+  data.groups.unshift(...groups);
+
+  await StorageManager.setData(updateDataMetadata(data));
+
+  // 先打开标签页列表页面，避免窗口因标签页全部关闭而被关闭
+  await withTabCapSuspended(() => chrome.tabs.create({ url: chrome.runtime.getURL('tab_list.html') }));
+
+  // 关闭已保存的标签页
+  const tabIdsToClose = tabsToClose.map((tab) => tab.id).filter(Boolean) as number[];
+  await TabManager.closeTabs(tabIdsToClose);
+
+  // 触发实时同步
+  await triggerSyncIfEnabled();
+}
+
+/**
+ * 聚合当前窗口的标签页
+ * 将符合条件的标签页保存为一个分组，并关闭这些标签页
+ * @param scope 聚合范围（默认整个窗口）
+ */
+export async function aggregateCurrentWindowTabs(scope: AggregateScope = 'all'): Promise<void> {
+  try {
+    // 获取当前窗口中聚合范围内的标签页
+    const tabs = TabManager.selectTabsByScope(await TabManager.getCurrentWindowTabs(), scope);
+
+    // 获取存储数据
+    const data = await StorageManager.getData();
+
+    // 过滤可保存的标签页
+    const tabsToSave = await filterTabsForSaving(tabs, data);
+
+    if (tabsToSave.length === 0) {
+      console.log('No tabs to save');
+      return;
+    }
+
+    // 创建新的标签页分组
+    const newGroup = await buildTabGroup(`标签页分组 - ${formatDate(new Date())}`, tabsToSave);
+
+    await saveAggregatedGroups(data, [newGroup], tabsToSave);
+
+    console.log(`Saved ${tabsToSave.length} tabs to group: ${newGroup.name}`);
+  } catch (error) {
+    console.error('Error aggregating tabs:', error);
+  }
+}
+
+/**
+ * 聚合所有窗口的标签页
+ * 每个窗口生成一个分组（以窗口当前标题命名），同属一个批次，并一次性关闭所有已保存的标签页
+ */
+export async function aggregateAllWindowsTabs(): Promise<void> {
+  try {
+    const tabs = await TabManager.getAllTabs();
+
+    const data = await StorageManager.getData();
+
+    const batchId = generateId();
+    const groups: TabGroup[] = [];
+    const tabsToSave: ChromeTab[] = [];
+
+    for (const [windowId, windowTabs] of TabManager.groupTabsByWindow(tabs)) {
+      const saveableTabs = await filterTabsForSaving(windowTabs, data);
+      if (saveableTabs.length === 0) {
+        continue;
+      }
+
+      // 窗口标题即为其活动标签页的标题
+      const activeTab = windowTabs.find((tab) => tab.active) || saveableTabs[0];
+      const windowIndex = groups.length;
+      const group = await buildTabGroup(`窗口 ${windowIndex + 1} - ${activeTab.title || '未命名窗口'}`, saveableTabs);
+
+      group.batchId = batchId;
+      group.windowIndex = windowIndex;
+      group.windowLayout = await TabManager.getWindowLayout(windowId);
+
+      groups.push(group);
+      tabsToSave.push(...saveableTabs);
+    }
+
+    if (groups.length === 0) {
+      console.log('No tabs to save');
+      return;
+    }
+
+    await saveAggregatedGroups(data, groups, tabsToSave);
+
+    console.log(`Saved ${tabsToSave.length} tabs from ${groups.length} windows, batch: ${batchId}`);
+  } catch (error) {
+    console.error('Error aggregating all windows:', error);
+  }
+}
+
+/**
+ * 按域名拆分聚合当前窗口的标签页
+ * 每个域名（或站点族）生成一个分组，标签页过少的域名归入"其他"分组
+ * @param overrides 拆分选项（未指定的项使用用户设置）
+ */
+export async function aggregateByDomain(overrides: Partial<DomainSplitOptions> = {}): Promise<void> {
+  try {
+    const tabs = await TabManager.getCurrentWindowTabs();
+
+    const data = await StorageManager.getData();
+    const tabsToSave = await filterTabsForSaving(tabs, data);
+
+    if (tabsToSave.length === 0) {
+      console.log('No tabs to save');
+      return;
+    }
+
+    const userSettings = await StorageManager.getUserSettings();
+    const options: DomainSplitOptions = {
+      bySiteFamily: userSettings.domainSplitBySiteFamily,
+      minGroupSize: userSettings.domainSplitMinGroupSize,
+      ...overrides
+    };
+
+    const dateStr = formatDate(new Date());
+    const groups = await Promise.all(
+      GroupManager.splitTabsByDomain(tabsToSave, options).map(({ domain, tabs: domainTabs }) =>
+        buildTabGroup(`${domain} - ${dateStr}`, domainTabs)
+      )
+    );
+
+    await saveAggregatedGroups(data, groups, tabsToSave);
+
+    console.log(`Split ${tabsToSave.length} tabs into ${groups.length} domain groups`);
+  } catch (error) {
+    console.error('Error aggregating tabs by domain:', error);
+  }
+}
+
+/**
+ * 将标签页追加到分组末尾
+ * 新增的标签页重新编号位置，活动标签页以分组原有的为准，并合并其所属的原生标签组
+ * @param group 目标分组
+ * @param newTabs 要追加的标签页（需在标签页关闭前调用，以便读取原生标签组）
+ */
+export async function mergeTabsIntoGroup(group: TabGroup, newTabs: TabData[]): Promise<void> {
+  await stampSourceDevice(newTabs);
+  const nextIndex = group.tabs.reduce((max: number, tab: TabData) => Math.max(max, (tab.index ?? -1) + 1), 0);
+  const hasActiveTab = group.tabs.some((tab: TabData) => tab.active);
+  newTabs.forEach((tab, i) => {
+    tab.index = nextIndex + i;
+    tab.active = hasActiveTab ? false : tab.active;
+  });
+
+  group.tabs.push(...newTabs);
+
+  const nativeGroups = (await TabManager.captureNativeGroups(newTabs)) || [];
+  const knownGroupIds = new Set((group.nativeGroups || []).map((g) => g.id));
+  const addedGroups = nativeGroups.filter((g) => !knownGroupIds.has(g.id));
+  if (addedGroups.length > 0) {
+    group.nativeGroups = [...(group.nativeGroups || []), ...addedGroups];
+  }
+}
+
+/**
+ * 将当前窗口的标签页添加到已有分组
+ * 标签页同样经过 filterTabsForSaving 过滤，添加后关闭这些标签页
+ * @param groupId 目标分组ID
+ * @param selectedTabs 仅添加其中指定的标签页（可选，默认添加当前窗口全部可保存的标签页）
+ * @param skipDuplicates 是否跳过分组中已存在的URL
+ * @returns 新增和跳过的标签页数量
+ */
+export async function appendToGroup(
+  groupId: string,
+  selectedTabs?: TabData[],
+  skipDuplicates = false
+): Promise<AppendResult> {
+  try {
+    const data = await StorageManager.getData();
+    const group = data.groups.find((g: TabGroup) => g.id === groupId);
+
+    if (!group) {
+      throw new Error('分组不存在');
+    }
+
+    if (group.locked) {
+      throw new Error('无法修改已锁定的分组');
+    }
+
+    const tabs = await TabManager.getCurrentWindowTabs();
+    let tabsToSave = await filterTabsForSaving(tabs, data);
+
+    if (selectedTabs) {
+      const selectedIds = new Set(selectedTabs.map((tab) => tab.id));
+      tabsToSave = tabsToSave.filter((tab) => selectedIds.has(tab.id));
+    }
+
+    if (tabsToSave.length === 0) {
+      throw new Error('没有可保存的标签页');
+    }
+
+    const existingUrls = new Set(group.tabs.map((tab: TabData) => tab.url));
+    const newTabs = TabManager.chromeTabsToTabData(tabsToSave).filter(
+      (tab) => !skipDuplicates || !existingUrls.has(tab.url)
+    );
+
+    await mergeTabsIntoGroup(group, newTabs);
+
+    await StorageManager.setData(updateDataMetadata(data));
+
+    // 关闭已保存的标签页（被跳过的重复标签页已存在于分组中，同样关闭）
+    const tabIdsToClose = tabsToSave.map((tab) => tab.id).filter(Boolean) as number[];
+    await TabManager.closeTabs(tabIdsToClose);
+
+    console.log(`Appended ${newTabs.length} tabs to group: ${group.name}`);
+
+    // 触发同步（如果启用）
+    await triggerSyncIfEnabled();
+
+    return {
+      added: newTabs.length,
+      skipped: tabsToSave.length - newTabs.length
+    };
+  } catch (error) {
+    console.error('Error appending to group:', error);
+    throw error;
+  }
+}
+
+/**
+ * 将标签页保存为新分组，不关闭标签页
+ * @param name 分组名称
+ * @param tabs 要保存的标签页
+ * @returns 新分组
+ */
+export async function saveTabsAsGroup(name: string, tabs: ChromeTab[]): Promise<TabGroup> {
+  const data = await StorageManager.getData();
+  const group = await buildTabGroup(name, tabs);
+  group.nativeGroups = await TabManager.captureNativeGroups(group.tabs);
+
+  data.groups.unshift(group);
+
+  await StorageManager.setData(updateDataMetadata(data));
+
+  // 触发同步（如果启用）
+  await triggerSyncIfEnabled();
+
+  return group;
+}
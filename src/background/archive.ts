@@ -0,0 +1,161 @@
+/**
+ * 自动归档
+ * 将闲置标签页和超出窗口数量上限的标签页移入滚动归档分组，溢出归档可以通过通知撤销
+ */
+
+import type { ChromeTab, TabData, TabGroup } from '../types/background';
+import { StorageManager, formatDate, updateDataMetadata } from '../utils/storage';
+import { TabManager } from '../utils/tabs';
+import { getExcludeRules } from '../utils/excludeRules';
+import { findIdleTabs } from './idleTabs';
+import { findOverflowTabs, notifyOverflowArchived, takeUndoRecord, withTabCapSuspended } from './tabCap';
+import { buildTabGroup, mergeTabsIntoGroup } from './aggregate';
+import { triggerSyncIfEnabled } from './syncIntegration';
+
+/** 闲置标签页归档分组的归档键 */
+const IDLE_ARCHIVE_KEY = 'idle';
+
+/** 窗口溢出标签页归档分组的归档键前缀，后接窗口ID */
+const OVERFLOW_ARCHIVE_KEY_PREFIX = 'overflow:';
+
+/**
+ * 将标签页归档到自动归档分组
+ * 追加到同一归档键下未锁定的分组中（分组被锁定后会新建一个），保存后关闭这些标签页
+ * @param archiveKey 归档键，标识一个滚动归档分组
+ * @param groupName 新建分组时使用的名称
+ * @param tabs 要归档的标签页
+ * @returns 归档所在的分组
+ */
+async function archiveTabs(archiveKey: string, groupName: string, tabs: ChromeTab[]): Promise<TabGroup> {
+  const data = await StorageManager.getData();
+  let group = data.groups.find((g: TabGroup) => g.autoArchiveKey === archiveKey && !g.locked);
+
+  if (group) {
+    await mergeTabsIntoGroup(group, TabManager.chromeTabsToTabData(tabs));
+  } else {
+    group = await buildTabGroup(groupName, tabs);
+    group.autoArchiveKey = archiveKey;
+    group.nativeGroups = await TabManager.captureNativeGroups(group.tabs);
+    data.groups.unshift(group);
+  }
+
+  await StorageManager.setData(updateDataMetadata(data));
+
+  await TabManager.closeTabs(tabs.map((tab) => tab.id));
+
+  // 触发同步（如果启用）
+  await triggerSyncIfEnabled();
+
+  return group;
+}
+
+/**
+ * 自动归档闲置标签页
+ * 由定时器触发，将超过闲置时间的标签页移入"闲置标签页"分组
+ */
+export async function archiveIdleTabs(): Promise<void> {
+  try {
+    const userSettings = await StorageManager.getUserSettings();
+    if (!userSettings.idleArchiveEnabled) {
+      return;
+    }
+
+    const idleTabs = await findIdleTabs(userSettings, getExcludeRules(await StorageManager.getSettings()));
+
+    if (idleTabs.length === 0) {
+      return;
+    }
+
+    const group = await archiveTabs(IDLE_ARCHIVE_KEY, '闲置标签页', idleTabs);
+
+    console.log(`Archived ${idleTabs.length} idle tabs to group: ${group.name}`);
+  } catch (error) {
+    console.error('Error archiving idle tabs:', error);
+  }
+}
+
+/**
+ * 归档窗口中超出数量上限的标签页
+ * 最久未使用的标签页移入该窗口的溢出分组，并显示可撤销的通知
+ * @param windowId 窗口ID
+ */
+export async function archiveOverflowTabs(windowId: number): Promise<void> {
+  try {
+    const userSettings = await StorageManager.getUserSettings();
+    if (!userSettings.tabCapEnabled) {
+      return;
+    }
+
+    const excludeRules = getExcludeRules(await StorageManager.getSettings());
+    const overflowTabs = await findOverflowTabs(windowId, userSettings, excludeRules);
+
+    if (overflowTabs.length === 0) {
+      return;
+    }
+
+    const group = await archiveTabs(
+      `${OVERFLOW_ARCHIVE_KEY_PREFIX}${windowId}`,
+      `溢出标签页 - ${formatDate(new Date())}`,
+      overflowTabs
+    );
+
+    console.log(`Archived ${overflowTabs.length} overflow tabs to group: ${group.name}`);
+
+    if (userSettings.showNotifications) {
+      await notifyOverflowArchived(
+        { groupId: group.id, windowId, tabIds: overflowTabs.map((tab) => tab.id) },
+        group.name
+      );
+    }
+  } catch (error) {
+    console.error('Error archiving overflow tabs:', error);
+  }
+}
+
+/**
+ * 撤销一次溢出归档
+ * 在原窗口（已关闭时为当前窗口）重新打开被归档的标签页，并将其从分组中移除
+ * @param notificationId 溢出归档通知ID
+ */
+export async function undoOverflowArchive(notificationId: string): Promise<void> {
+  try {
+    const record = await takeUndoRecord(notificationId);
+    await chrome.notifications.clear(notificationId);
+
+    if (!record) {
+      return;
+    }
+
+    const data = await StorageManager.getData();
+    const group = data.groups.find((g: TabGroup) => g.id === record.groupId);
+
+    if (!group) {
+      throw new Error('分组不存在');
+    }
+
+    const archivedIds = new Set<number | undefined>(record.tabIds);
+    const tabsToRestore = group.tabs.filter((tab: TabData) => archivedIds.has(tab.id));
+    const windowExists = await chrome.windows.get(record.windowId).then(
+      () => true,
+      () => false
+    );
+
+    await withTabCapSuspended(() =>
+      TabManager.restoreTabs(tabsToRestore, { windowId: windowExists ? record.windowId : undefined })
+    );
+
+    group.tabs = group.tabs.filter((tab: TabData) => !archivedIds.has(tab.id));
+    if (group.tabs.length === 0) {
+      data.groups = data.groups.filter((g: TabGroup) => g.id !== group.id);
+    }
+
+    await StorageManager.setData(updateDataMetadata(data));
+
+    console.log(`Undid overflow archive: restored ${tabsToRestore.length} tabs`);
+
+    // 触发同步（如果启用）
+    await triggerSyncIfEnabled();
+  } catch (error) {
+    console.error('Error undoing overflow archive:', error);
+  }
+}
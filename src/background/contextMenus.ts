@@ -0,0 +1,282 @@
+/**
+ * 右键菜单
+ * 在页面、链接、选中文本和插件图标上提供保存入口，"保存链接到分组"子菜单与已保存的分组保持同步
+ */
+
+import type { ChromeTab, TabData, TabGroup } from '../types/background';
+import { StorageManager, formatDate, generateFavIconUrl, generateUuid, updateDataMetadata } from '../utils/storage';
+import { TabManager } from '../utils/tabs';
+import { getExcludeRules, shouldExcludeUrl } from '../utils/excludeRules';
+import {
+  buildTabGroup,
+  filterTabsForSaving,
+  mergeTabsIntoGroup,
+  saveAggregatedGroups,
+  saveTabsAsGroup,
+  stampSourceDevice
+} from './aggregate';
+import { triggerSyncIfEnabled } from './syncIntegration';
+
+/** 菜单项ID */
+export const CONTEXT_MENU_IDS = {
+  SAVE_TAB: 'save-tab',
+  SAVE_LINK: 'save-link',
+  SAVE_LINK_NEW_GROUP: 'save-link:new',
+  SAVE_WINDOW: 'save-window',
+  SAVE_AND_CLOSE_DOMAIN: 'save-and-close-domain'
+} as const;
+
+/** "保存链接到分组"子菜单项ID前缀，后接分组ID */
+export const SAVE_LINK_GROUP_PREFIX = 'save-link:group:';
+
+/** 子菜单中最多列出的分组数量 */
+const MAX_LINK_TARGET_GROUPS = 20;
+
+/** 作用于当前页面的菜单项显示的位置 */
+const PAGE_CONTEXTS: [chrome.contextMenus.ContextType, ...chrome.contextMenus.ContextType[]] = [
+  'page',
+  'selection',
+  'link',
+  'action'
+];
+
+/** 菜单重建队列，避免并发重建时出现重复ID */
+let rebuildQueue: Promise<void> = Promise.resolve();
+
+/**
+ * 创建菜单项，忽略重复ID等错误
+ * @param properties 菜单项属性
+ */
+function createMenuItem(properties: chrome.contextMenus.CreateProperties): void {
+  chrome.contextMenus.create(properties, () => {
+    if (chrome.runtime.lastError) {
+      console.error('Failed to create context menu:', chrome.runtime.lastError.message);
+    }
+  });
+}
+
+/**
+ * 获取可作为链接保存目标的分组
+ * 已锁定的分组不可修改，置顶分组排在前面
+ * @param groups 全部分组
+ * @returns 目标分组列表
+ */
+function getLinkTargetGroups(groups: TabGroup[]): TabGroup[] {
+  const unlocked = groups.filter((group) => !group.locked);
+  return [...unlocked.filter((group) => group.pinned), ...unlocked.filter((group) => !group.pinned)].slice(
+    0,
+    MAX_LINK_TARGET_GROUPS
+  );
+}
+
+/**
+ * 按当前分组重建全部菜单项
+ * @param groups 已保存的分组
+ */
+async function rebuildContextMenus(groups: TabGroup[]): Promise<void> {
+  await chrome.contextMenus.removeAll();
+
+  createMenuItem({
+    id: CONTEXT_MENU_IDS.SAVE_TAB,
+    title: '保存此标签页到 Uni Tab',
+    contexts: PAGE_CONTEXTS
+  });
+
+  createMenuItem({
+    id: CONTEXT_MENU_IDS.SAVE_LINK,
+    title: '保存链接到分组',
+    contexts: ['link']
+  });
+
+  getLinkTargetGroups(groups).forEach((group) => {
+    createMenuItem({
+      id: `${SAVE_LINK_GROUP_PREFIX}${group.id}`,
+      parentId: CONTEXT_MENU_IDS.SAVE_LINK,
+      title: group.name,
+      contexts: ['link']
+    });
+  });
+
+  createMenuItem({
+    id: 'save-link:separator',
+    parentId: CONTEXT_MENU_IDS.SAVE_LINK,
+    type: 'separator',
+    contexts: ['link']
+  });
+
+  createMenuItem({
+    id: CONTEXT_MENU_IDS.SAVE_LINK_NEW_GROUP,
+    parentId: CONTEXT_MENU_IDS.SAVE_LINK,
+    title: '新建分组',
+    contexts: ['link']
+  });
+
+  createMenuItem({
+    id: CONTEXT_MENU_IDS.SAVE_WINDOW,
+    title: '保存此窗口的所有标签页',
+    contexts: PAGE_CONTEXTS
+  });
+
+  createMenuItem({
+    id: CONTEXT_MENU_IDS.SAVE_AND_CLOSE_DOMAIN,
+    title: '保存并关闭此域名的标签页',
+    contexts: PAGE_CONTEXTS
+  });
+}
+
+/**
+ * 读取最新数据并刷新右键菜单
+ * 在安装、启动以及分组数据变化时调用
+ */
+export function refreshContextMenus(): Promise<void> {
+  rebuildQueue = rebuildQueue.then(async () => {
+    try {
+      const data = await StorageManager.getData();
+      await rebuildContextMenus(data.groups);
+    } catch (error) {
+      console.error('Failed to refresh context menus:', error);
+    }
+  });
+  return rebuildQueue;
+}
+
+/**
+ * 从子菜单项ID中解析目标分组ID
+ * @param menuItemId 菜单项ID
+ * @returns 分组ID，不是分组菜单项时返回 null
+ */
+export function parseLinkTargetGroupId(menuItemId: string | number): string | null {
+  const id = String(menuItemId);
+  if (!id.startsWith(SAVE_LINK_GROUP_PREFIX)) {
+    return null;
+  }
+  return id.substring(SAVE_LINK_GROUP_PREFIX.length) || null;
+}
+
+/**
+ * 保存链接到分组
+ * @param linkUrl 链接地址
+ * @param title 链接标题
+ * @param groupId 目标分组ID，为 null 时新建分组
+ */
+async function saveLinkToGroup(linkUrl: string, title: string, groupId: string | null): Promise<void> {
+  const data = await StorageManager.getData();
+
+  if (shouldExcludeUrl(linkUrl, getExcludeRules(data.settings))) {
+    console.log(`Link excluded by rules: ${linkUrl}`);
+    return;
+  }
+
+  const tabData: TabData = {
+    uid: generateUuid(),
+    title,
+    url: linkUrl,
+    favIconUrl: generateFavIconUrl(linkUrl),
+    addedAt: new Date().toISOString(),
+    openCount: 0
+  };
+
+  if (groupId === null) {
+    const group: TabGroup = {
+      id: generateUuid(),
+      name: `标签页分组 - ${formatDate(new Date())}`,
+      createdAt: new Date().toISOString(),
+      pinned: false,
+      locked: false,
+      tabs: await stampSourceDevice([{ ...tabData, index: 0 }])
+    };
+    data.groups.unshift(group);
+  } else {
+    const group = data.groups.find((g: TabGroup) => g.id === groupId);
+
+    if (!group) {
+      throw new Error('分组不存在');
+    }
+
+    if (group.locked) {
+      throw new Error('无法修改已锁定的分组');
+    }
+
+    await mergeTabsIntoGroup(group, [tabData]);
+  }
+
+  await StorageManager.setData(updateDataMetadata(data));
+
+  // 触发同步（如果启用）
+  await triggerSyncIfEnabled();
+}
+
+/**
+ * 保存并关闭当前窗口中与指定标签页同域名的标签页
+ * @param tab 右键菜单所在的标签页
+ */
+async function saveAndCloseDomainTabs(tab: ChromeTab): Promise<void> {
+  const hostname = new URL(tab.url).hostname;
+  const windowTabs = (await chrome.tabs.query({ windowId: tab.windowId })) as ChromeTab[];
+  const sameDomainTabs = windowTabs.filter((t) => {
+    try {
+      return new URL(t.url).hostname === hostname;
+    } catch {
+      return false;
+    }
+  });
+
+  const data = await StorageManager.getData();
+  const tabsToSave = await filterTabsForSaving(sameDomainTabs, data);
+
+  if (tabsToSave.length === 0) {
+    console.log('No tabs to save');
+    return;
+  }
+
+  await saveAggregatedGroups(data, [await buildTabGroup(hostname, tabsToSave)], tabsToSave);
+}
+
+/**
+ * 处理右键菜单点击
+ * @param info 点击信息
+ * @param tab 菜单所在的标签页
+ */
+export async function handleContextMenuClick(info: chrome.contextMenus.OnClickData, tab?: ChromeTab): Promise<void> {
+  try {
+    if (info.linkUrl && String(info.menuItemId).startsWith(CONTEXT_MENU_IDS.SAVE_LINK)) {
+      const title = info.selectionText || info.linkUrl;
+      await saveLinkToGroup(info.linkUrl, title, parseLinkTargetGroupId(info.menuItemId));
+      return;
+    }
+
+    if (!tab?.url) {
+      return;
+    }
+
+    switch (info.menuItemId) {
+      case CONTEXT_MENU_IDS.SAVE_TAB: {
+        const data = await StorageManager.getData();
+        const [tabToSave] = TabManager.filterSaveableTabs([tab], getExcludeRules(data.settings), true);
+        if (tabToSave) {
+          await saveTabsAsGroup(tabToSave.title || '未命名标签页', [tabToSave]);
+        }
+        break;
+      }
+
+      case CONTEXT_MENU_IDS.SAVE_WINDOW: {
+        const data = await StorageManager.getData();
+        const windowTabs = (await chrome.tabs.query({ windowId: tab.windowId })) as ChromeTab[];
+        const tabsToSave = await filterTabsForSaving(windowTabs, data);
+        if (tabsToSave.length > 0) {
+          await saveTabsAsGroup(`标签页分组 - ${formatDate(new Date())}`, tabsToSave);
+        }
+        break;
+      }
+
+      case CONTEXT_MENU_IDS.SAVE_AND_CLOSE_DOMAIN:
+        await saveAndCloseDomainTabs(tab);
+        break;
+
+      default:
+        console.log(`Unknown context menu item: ${info.menuItemId}`);
+    }
+  } catch (error) {
+    console.error('Error handling context menu click:', error);
+  }
+}
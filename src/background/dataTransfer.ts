@@ -0,0 +1,168 @@
+/**
+ * 导入和导出
+ * 以 JSON 或 CSV 导出全部数据或单个文件夹；导入时先迁移旧版本的数据，再合并到已有数据中
+ */
+
+import type { ExportFormat, Folder, FolderTombstone, StorageData, TabData, TabGroup } from '../types/background';
+import { StorageManager, generateUuid, updateDataMetadata } from '../utils/storage';
+import { getExcludeRules, shouldExcludeUrl } from '../utils/excludeRules';
+import { mergeTags } from '../utils/tags';
+import { formatGroupIcon, normalizeGroupAppearance } from '../utils/groupAppearance';
+import { getFolderGroups, getFolderTreeIds, normalizeFolders } from '../utils/folders';
+import { migrateData } from '../utils/migrations';
+import { findFolder } from './folders';
+import { triggerSyncIfEnabled } from './syncIntegration';
+
+/**
+ * 选取文件夹（含子文件夹）中的数据用于导出
+ * 导出的文件夹移到根目录，导入到其他位置时仍保持原有层级
+ * @param data 存储数据
+ * @param folderId 文件夹ID
+ */
+function selectFolderData(data: StorageData, folderId: string): StorageData {
+  findFolder(data, folderId);
+  const folders = data.folders || [];
+  const ids = getFolderTreeIds(folders, folderId);
+
+  return {
+    ...data,
+    groups: getFolderGroups(data.groups, folders, folderId),
+    folders: folders
+      .filter((folder: Folder) => ids.has(folder.id))
+      .map((folder: Folder) => (folder.id === folderId ? { ...folder, parentId: undefined } : folder))
+  };
+}
+
+/**
+ * 导出数据
+ * @param format 导出格式（json 或 csv）
+ * @param folderId 只导出该文件夹（含子文件夹）中的分组，缺失时导出全部数据
+ */
+export async function exportData(format: ExportFormat, folderId?: string): Promise<void> {
+  try {
+    const allData = await StorageManager.getData();
+    const data = folderId === undefined ? allData : selectFolderData(allData, folderId);
+    let content: string;
+    let filename: string;
+    let mimeType: string;
+
+    const dateStr = new Date().toISOString().split('T')[0];
+
+    if (format === 'json') {
+      content = JSON.stringify(data, null, 2);
+      filename = `tab-sorter-backup-${dateStr}.json`;
+      mimeType = 'application/json';
+    } else if (format === 'csv') {
+      const csvRows = ['分组名称,标签标题,URL,创建时间,是否锁定,标签,颜色,图标'];
+      data.groups.forEach((group: TabGroup) => {
+        group.tabs.forEach((tab: TabData) => {
+          const row = [
+            `"${group.name}"`,
+            `"${tab.title}"`,
+            `"${tab.url}"`,
+            `"${group.createdAt}"`,
+            `"${group.locked ? '是' : '否'}"`,
+            `"${(mergeTags(group.tags, tab.tags) || []).join(' ')}"`,
+            `"${group.color || ''}"`,
+            `"${formatGroupIcon(group.icon)}"`
+          ].join(',');
+          csvRows.push(row);
+        });
+      });
+      content = csvRows.join('\n');
+      filename = `tab-sorter-backup-${dateStr}.csv`;
+      mimeType = 'text/csv';
+    } else {
+      throw new Error('不支持的导出格式');
+    }
+
+    // 创建下载
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+
+    await chrome.downloads.download({
+      url: url,
+      filename: filename
+    });
+
+    console.log(`Exported data as ${format}: ${filename}`);
+  } catch (error) {
+    console.error('Error exporting data:', error);
+    throw error;
+  }
+}
+
+/**
+ * 导入数据
+ * @param importedData 要导入的数据
+ */
+export async function importData(importedData: Partial<StorageData>): Promise<void> {
+  try {
+    // 验证数据格式
+    if (!importedData.groups || !Array.isArray(importedData.groups)) {
+      throw new Error('无效的数据格式');
+    }
+
+    // 导入的数据可能由旧版本导出，先迁移到当前数据结构；由更新版本导出的数据拒绝导入
+    const { groups } = migrateData({
+      version: importedData.version,
+      groups: importedData.groups,
+      settings: importedData.settings
+    });
+
+    const currentData = await StorageManager.getData();
+
+    // 移除匹配排除规则的标签页，丢弃因此变为空的分组
+    const excludeRules = getExcludeRules(currentData.settings);
+    importedData.groups = groups
+      .map((group: TabGroup) => ({
+        ...group,
+        tabs: (group.tabs || []).filter((tab: TabData) => tab?.url && !shouldExcludeUrl(tab.url, excludeRules))
+      }))
+      .filter((group: TabGroup) => group.tabs.length > 0);
+
+    // 导入文件夹；与已有文件夹ID相同时视为同一文件夹，分组导入到已有文件夹中
+    // 重新导入已删除的文件夹时移除其删除记录
+    const currentFolders = currentData.folders || [];
+    const currentFolderIds = new Set(currentFolders.map((f: Folder) => f.id));
+    const newFolders = (importedData.folders || []).filter((f: Folder) => f?.id && !currentFolderIds.has(f.id));
+    const newFolderIds = new Set(newFolders.map((f: Folder) => f.id));
+    currentData.deletedFolders = (currentData.deletedFolders || []).filter(
+      (tombstone: FolderTombstone) => !newFolderIds.has(tombstone.id)
+    );
+    currentData.folders = normalizeFolders([...currentFolders, ...newFolders], currentData.deletedFolders);
+    const folderIds = new Set(currentData.folders.map((f: Folder) => f.id));
+
+    // 保留导入分组的ID；与已有分组ID相同时视为副本，为其及其标签页分配新ID
+    const usedIds = new Set(currentData.groups.map((g: TabGroup) => g.id));
+    importedData.groups.forEach((group: TabGroup) => {
+      if (usedIds.has(group.id)) {
+        group.id = generateUuid();
+        group.tabs = group.tabs.map((tab: TabData) => ({ ...tab, uid: generateUuid() }));
+      }
+      if (group.folderId !== undefined && !folderIds.has(group.folderId)) {
+        group.folderId = undefined;
+      }
+      Object.assign(group, normalizeGroupAppearance(group));
+      usedIds.add(group.id);
+      group.createdAt = group.createdAt || new Date().toISOString();
+      group.locked = group.locked || false;
+    });
+
+    currentData.groups.push(...importedData.groups);
+
+    // 更新元数据
+    updateDataMetadata(currentData);
+
+    await StorageManager.setData(currentData);
+
+    console.log(`Imported ${importedData.groups.length} groups`);
+
+    // 触发实时同步
+    // 触发同步（如果启用）
+    await triggerSyncIfEnabled();
+  } catch (error) {
+    console.error('Error importing data:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * 文件夹管理
+ * 新建、重命名、移动和删除文件夹，移动分组，对文件夹（含子文件夹）中的所有分组执行恢复和锁定
+ */
+
+import type { Folder, RestoreOptions, StorageData, TabGroup } from '../types/background';
+import { StorageManager, generateUuid, updateDataMetadata } from '../utils/storage';
+import { TabManager } from '../utils/tabs';
+import { canMoveFolder, getFolderGroups, pruneFolderTombstones } from '../utils/folders';
+import { recordTabsOpened, restoreTabs } from './restore';
+import { triggerSyncIfEnabled } from './syncIntegration';
+
+/**
+ * 查找文件夹
+ * @param data 存储数据
+ * @param folderId 文件夹ID
+ */
+export function findFolder(data: StorageData, folderId: string): Folder {
+  const folder = (data.folders || []).find((f: Folder) => f.id === folderId);
+  if (!folder) {
+    throw new Error('文件夹不存在');
+  }
+  return folder;
+}
+
+/**
+ * 创建文件夹
+ * @param name 文件夹名称
+ * @param parentId 上级文件夹ID（缺失表示根目录）
+ * @returns 新文件夹
+ */
+export async function createFolder(name: string, parentId?: string): Promise<Folder> {
+  try {
+    const data = await StorageManager.getData();
+    if (parentId !== undefined) {
+      findFolder(data, parentId);
+    }
+
+    const folder: Folder = {
+      id: generateUuid(),
+      name: name.trim() || '新文件夹',
+      parentId,
+      createdAt: new Date().toISOString()
+    };
+    data.folders = [...(data.folders || []), folder];
+
+    await StorageManager.setData(updateDataMetadata(data));
+
+    console.log(`Created folder: ${folder.name}`);
+
+    // 触发同步（如果启用）
+    await triggerSyncIfEnabled();
+    return folder;
+  } catch (error) {
+    console.error('Error creating folder:', error);
+    throw error;
+  }
+}
+
+/**
+ * 重命名文件夹
+ * @param folderId 文件夹ID
+ * @param name 新名称
+ */
+export async function renameFolder(folderId: string, name: string): Promise<void> {
+  try {
+    const data = await StorageManager.getData();
+    const folder = findFolder(data, folderId);
+
+    if (!name.trim()) {
+      throw new Error('文件夹名称不能为空');
+    }
+    folder.name = name.trim();
+
+    await StorageManager.setData(updateDataMetadata(data));
+
+    console.log(`Renamed folder: ${folderId} -> ${folder.name}`);
+
+    // 触发同步（如果启用）
+    await triggerSyncIfEnabled();
+  } catch (error) {
+    console.error('Error renaming folder:', error);
+    throw error;
+  }
+}
+
+/**
+ * 删除文件夹
+ * 文件夹中的分组和子文件夹移到其上级文件夹，不会删除任何分组
+ * 同时记录删除，使同步时另一端的副本不会恢复该文件夹
+ * @param folderId 文件夹ID
+ */
+export async function deleteFolder(folderId: string): Promise<void> {
+  try {
+    const data = await StorageManager.getData();
+    const folder = findFolder(data, folderId);
+    const movedAt = new Date().toISOString();
+
+    data.folders = (data.folders || [])
+      .filter((f: Folder) => f.id !== folderId)
+      .map((f: Folder) => (f.parentId === folderId ? { ...f, parentId: folder.parentId, movedAt } : f));
+    data.groups.forEach((group: TabGroup) => {
+      if (group.folderId === folderId) {
+        group.folderId = folder.parentId;
+        group.movedAt = movedAt;
+      }
+    });
+    data.deletedFolders = pruneFolderTombstones([
+      ...(data.deletedFolders || []),
+      { id: folderId, parentId: folder.parentId, deletedAt: movedAt }
+    ]);
+
+    await StorageManager.setData(updateDataMetadata(data));
+
+    console.log(`Deleted folder: ${folder.name}`);
+
+    // 触发同步（如果启用）
+    await triggerSyncIfEnabled();
+  } catch (error) {
+    console.error('Error deleting folder:', error);
+    throw error;
+  }
+}
+
+/**
+ * 移动文件夹
+ * @param folderId 文件夹ID
+ * @param parentId 目标上级文件夹ID（缺失表示根目录）
+ */
+export async function moveFolder(folderId: string, parentId?: string): Promise<void> {
+  try {
+    const data = await StorageManager.getData();
+    const folder = findFolder(data, folderId);
+
+    if (!canMoveFolder(data.folders || [], folderId, parentId)) {
+      throw new Error('不能将文件夹移动到其自身或子文件夹中');
+    }
+
+    folder.parentId = parentId;
+    folder.movedAt = new Date().toISOString();
+
+    await StorageManager.setData(updateDataMetadata(data));
+
+    console.log(`Moved folder: ${folderId} -> ${parentId ?? 'root'}`);
+
+    // 触发同步（如果启用）
+    await triggerSyncIfEnabled();
+  } catch (error) {
+    console.error('Error moving folder:', error);
+    throw error;
+  }
+}
+
+/**
+ * 将分组移动到文件夹
+ * 移动只改变分组的位置，已锁定的分组也可以移动
+ * @param groupId 分组ID
+ * @param folderId 目标文件夹ID（缺失表示根目录）
+ */
+export async function moveGroup(groupId: string, folderId?: string): Promise<void> {
+  try {
+    const data = await StorageManager.getData();
+    const group = data.groups.find((g: TabGroup) => g.id === groupId);
+
+    if (!group) {
+      throw new Error('分组不存在');
+    }
+    if (folderId !== undefined) {
+      findFolder(data, folderId);
+    }
+
+    group.folderId = folderId;
+    group.movedAt = new Date().toISOString();
+
+    await StorageManager.setData(updateDataMetadata(data));
+
+    console.log(`Moved group: ${groupId} -> ${folderId ?? 'root'}`);
+
+    // 触发同步（如果启用）
+    await triggerSyncIfEnabled();
+  } catch (error) {
+    console.error('Error moving group:', error);
+    throw error;
+  }
+}
+
+/**
+ * 恢复文件夹（含子文件夹）中的所有分组
+ * 所有标签页按分组顺序在同一个恢复作业中打开
+ * @param folderId 文件夹ID
+ * @param options 恢复选项（未指定 lazy、dedupe 时使用用户设置）
+ * @returns 恢复作业ID
+ */
+export async function restoreFolder(folderId: string, options: RestoreOptions = {}): Promise<string> {
+  try {
+    const data = await StorageManager.getData();
+    const folder = findFolder(data, folderId);
+    const groups = getFolderGroups(data.groups, data.folders || [], folderId);
+    const tabs = TabManager.flattenGroupTabs(groups.map((group: TabGroup) => group.tabs));
+
+    if (tabs.length === 0) {
+      throw new Error('文件夹中没有标签页');
+    }
+
+    const jobId = await restoreTabs(tabs, options, `文件夹 ${folder.name}`);
+    await recordTabsOpened(groups.map((group: TabGroup) => group.id));
+
+    console.log(`Restoring ${tabs.length} tabs from folder ${folder.name}`);
+    return jobId;
+  } catch (error) {
+    console.error('Error restoring folder:', error);
+    throw error;
+  }
+}
+
+/**
+ * 锁定或解锁文件夹（含子文件夹）中的所有分组
+ * @param folderId 文件夹ID
+ * @param locked 是否锁定
+ * @returns 状态发生变化的分组数量
+ */
+export async function setFolderLocked(folderId: string, locked: boolean): Promise<number> {
+  try {
+    const data = await StorageManager.getData();
+    findFolder(data, folderId);
+    const groups = getFolderGroups(data.groups, data.folders || [], folderId).filter(
+      (group: TabGroup) => Boolean(group.locked) !== locked
+    );
+
+    groups.forEach((group: TabGroup) => {
+      group.locked = locked;
+    });
+
+    await StorageManager.setData(updateDataMetadata(data));
+
+    console.log(`${locked ? 'Locked' : 'Unlocked'} ${groups.length} groups in folder ${folderId}`);
+
+    // 触发同步（如果启用）
+    await triggerSyncIfEnabled();
+    return groups.length;
+  } catch (error) {
+    console.error('Error setting folder lock:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * 分组管理
+ * 新建、重命名、锁定和删除分组，修改分组的颜色和图标
+ */
+
+import type { GroupColor, GroupIcon, TabData, TabGroup } from '../types/background';
+import { StorageManager, formatDate, generateFavIconUrl, generateUuid, updateDataMetadata } from '../utils/storage';
+import { TabManager } from '../utils/tabs';
+import { formatGroupIcon, normalizeGroupAppearance } from '../utils/groupAppearance';
+import { stampSourceDevice } from './aggregate';
+import { triggerSyncIfEnabled } from './syncIntegration';
+
+/**
+ * 创建新分组
+ * @param name 分组名称
+ * @param tabs 标签页列表
+ */
+export async function createGroup(name?: string, tabs: TabData[] = []): Promise<void> {
+  try {
+    const data = await StorageManager.getData();
+    const newGroup: TabGroup = {
+      id: generateUuid(),
+      name: name || `标签页分组 - ${formatDate(new Date())}`,
+      createdAt: new Date().toISOString(),
+      pinned: false,
+      locked: false,
+      tabs: await stampSourceDevice(
+        tabs.map((tab: TabData): TabData => ({
+          uid: generateUuid(),
+          id: tab.id,
+          title: tab.title,
+          url: tab.url,
+          favIconUrl: tab.favIconUrl || generateFavIconUrl(tab.url),
+          addedAt: new Date().toISOString(),
+          openCount: 0
+        }))
+      )
+    };
+
+    data.groups.unshift(newGroup);
+
+    // 更新元数据
+    updateDataMetadata(data);
+
+    await StorageManager.setData(data);
+
+    // 关闭已保存的标签页（如果有ID）
+    const tabIdsToClose = tabs.map((tab) => tab.id).filter(Boolean) as number[];
+    if (tabIdsToClose.length > 0) {
+      await TabManager.closeTabs(tabIdsToClose);
+    }
+
+    console.log(`Created group: ${newGroup.name}`);
+
+    // 触发实时同步
+    // 触发同步（如果启用）
+    await triggerSyncIfEnabled();
+  } catch (error) {
+    console.error('Error creating group:', error);
+    throw error;
+  }
+}
+
+/**
+ * 更新分组名称
+ * @param groupId 分组ID
+ * @param newName 新名称
+ */
+export async function updateGroupName(groupId: string, newName: string): Promise<void> {
+  try {
+    const data = await StorageManager.getData();
+    const group = data.groups.find((g: TabGroup) => g.id === groupId);
+
+    if (!group) {
+      throw new Error('分组不存在');
+    }
+
+    if (group.locked) {
+      throw new Error('无法修改已锁定的分组');
+    }
+
+    group.name = newName;
+
+    // 更新元数据
+    updateDataMetadata(data);
+
+    await StorageManager.setData(data);
+
+    console.log(`Updated group name: ${groupId} -> ${newName}`);
+
+    // 触发实时同步
+    // 触发同步（如果启用）
+    await triggerSyncIfEnabled();
+  } catch (error) {
+    console.error('Error updating group name:', error);
+    throw error;
+  }
+}
+
+/**
+ * 切换分组锁定状态
+ * @param groupId 分组ID
+ */
+export async function toggleGroupLock(groupId: string): Promise<void> {
+  try {
+    const data = await StorageManager.getData();
+    const group = data.groups.find((g: TabGroup) => g.id === groupId);
+
+    if (!group) {
+      throw new Error('分组不存在');
+    }
+
+    group.locked = !group.locked;
+
+    // 更新元数据
+    updateDataMetadata(data);
+
+    await StorageManager.setData(data);
+
+    console.log(`Toggled group lock: ${groupId} -> ${group.locked ? 'locked' : 'unlocked'}`);
+
+    // 触发实时同步
+    // 触发同步（如果启用）
+    await triggerSyncIfEnabled();
+  } catch (error) {
+    console.error('Error toggling group lock:', error);
+    throw error;
+  }
+}
+
+/**
+ * 修改分组的颜色和图标
+ * @param groupId 分组ID
+ * @param color 颜色（缺失表示清除）
+ * @param icon 图标（缺失表示清除）
+ */
+export async function updateGroupAppearance(groupId: string, color?: GroupColor, icon?: GroupIcon): Promise<void> {
+  try {
+    const data = await StorageManager.getData();
+    const group = data.groups.find((g: TabGroup) => g.id === groupId);
+
+    if (!group) {
+      throw new Error('分组不存在');
+    }
+
+    if (group.locked) {
+      throw new Error('无法修改已锁定的分组');
+    }
+
+    Object.assign(group, normalizeGroupAppearance({ color, icon }));
+
+    await StorageManager.setData(updateDataMetadata(data));
+
+    console.log(`Updated group appearance: ${groupId} -> ${group.color ?? 'none'}, ${formatGroupIcon(group.icon)}`);
+
+    // 触发同步（如果启用）
+    await triggerSyncIfEnabled();
+  } catch (error) {
+    console.error('Error updating group appearance:', error);
+    throw error;
+  }
+}
+
+/**
+ * 删除分组
+ * @param groupId 分组ID
+ */
+export async function deleteGroup(groupId: string): Promise<void> {
+  try {
+    const data = await StorageManager.getData();
+    const groupIndex = data.groups.findIndex((g: TabGroup) => g.id === groupId);
+
+    if (groupIndex === -1) {
+      throw new Error('分组不存在');
+    }
+
+    const group = data.groups[groupIndex];
+    if (group.locked) {
+      throw new Error('无法删除已锁定的分组');
+    }
+
+    data.groups.splice(groupIndex, 1);
+
+    // 更新元数据
+    updateDataMetadata(data);
+
+    await StorageManager.setData(data);
+
+    console.log(`Deleted group: ${groupId}`);
+
+    // 触发实时同步
+    // 触发同步（如果启用）
+    await triggerSyncIfEnabled();
+  } catch (error) {
+    console.error('Error deleting group:', error);
+    throw error;
+  }
+}
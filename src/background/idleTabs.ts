@@ -0,0 +1,167 @@
+/**
+ * 闲置标签页检测
+ * 记录标签页的活跃时间，定期找出长时间未被访问的标签页供后台自动归档
+ */
+
+import type { ChromeTab, ExcludeRule, UserSettings } from '../types/background';
+import { TabManager } from '../utils/tabs';
+
+/** 闲置检查定时器名称 */
+export const IDLE_ARCHIVE_ALARM = 'idle-archive';
+
+/** 闲置检查间隔（分钟） */
+const IDLE_CHECK_INTERVAL_MINUTES = 5;
+
+/** 标签页活跃记录的会话存储键名 */
+const ACTIVITY_KEY = 'idleTabActivity';
+
+/**
+ * 标签页活跃记录
+ * 保存在 chrome.storage.session 中，Service Worker 休眠后仍然可用
+ */
+interface TabActivity {
+  /** 标签页ID -> 最后一次处于活动状态的时间戳 */
+  lastSeen: Record<string, number>;
+  /** 窗口ID -> 当前活动标签页ID */
+  activeByWindow: Record<string, number>;
+}
+
+/**
+ * 读取标签页活跃记录
+ */
+async function getActivity(): Promise<TabActivity> {
+  const result = await chrome.storage.session.get(ACTIVITY_KEY);
+  return (result[ACTIVITY_KEY] as TabActivity) || { lastSeen: {}, activeByWindow: {} };
+}
+
+/**
+ * 保存标签页活跃记录
+ */
+async function setActivity(activity: TabActivity): Promise<void> {
+  await chrome.storage.session.set({ [ACTIVITY_KEY]: activity });
+}
+
+/**
+ * 标签页切换时更新活跃记录
+ * 被切走的标签页从此刻开始计算闲置时间
+ */
+async function handleTabActivated(activeInfo: chrome.tabs.OnActivatedInfo): Promise<void> {
+  try {
+    const activity = await getActivity();
+    const now = Date.now();
+    const previousTabId = activity.activeByWindow[activeInfo.windowId];
+
+    if (previousTabId !== undefined) {
+      activity.lastSeen[previousTabId] = now;
+    }
+    activity.lastSeen[activeInfo.tabId] = now;
+    activity.activeByWindow[activeInfo.windowId] = activeInfo.tabId;
+
+    await setActivity(activity);
+  } catch (error) {
+    console.error('Failed to record tab activity:', error);
+  }
+}
+
+/**
+ * 标签页关闭时清理活跃记录
+ */
+async function handleTabRemoved(tabId: number): Promise<void> {
+  try {
+    const activity = await getActivity();
+    delete activity.lastSeen[tabId];
+    await setActivity(activity);
+  } catch (error) {
+    console.error('Failed to clear tab activity:', error);
+  }
+}
+
+/**
+ * 注册标签页活跃状态监听器
+ * 需要在 Service Worker 顶层同步调用
+ */
+export function registerIdleTabListeners(): void {
+  chrome.tabs.onActivated.addListener(handleTabActivated);
+  chrome.tabs.onRemoved.addListener(handleTabRemoved);
+}
+
+/**
+ * 根据用户设置创建或清除闲置检查定时器
+ * @param settings 用户设置
+ */
+export async function scheduleIdleArchive(settings: UserSettings): Promise<void> {
+  try {
+    if (!settings.idleArchiveEnabled) {
+      await chrome.alarms.clear(IDLE_ARCHIVE_ALARM);
+      return;
+    }
+
+    const existing = await chrome.alarms.get(IDLE_ARCHIVE_ALARM);
+    if (!existing) {
+      await chrome.alarms.create(IDLE_ARCHIVE_ALARM, { periodInMinutes: IDLE_CHECK_INTERVAL_MINUTES });
+      console.log('Idle tab archive scheduled');
+    }
+  } catch (error) {
+    console.error('Failed to schedule idle archive:', error);
+  }
+}
+
+/**
+ * 检查主机名是否在允许列表中（允许列表中的域名及其子域名不会被归档）
+ * @param url 标签页URL
+ * @param allowlist 域名允许列表
+ */
+function isAllowlisted(url: string, allowlist: string[]): boolean {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase();
+    return allowlist.some((domain) => {
+      const normalized = domain.trim().toLowerCase();
+      return normalized !== '' && (hostname === normalized || hostname.endsWith(`.${normalized}`));
+    });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 找出超过闲置时间的标签页
+ * 跳过活动、固定、正在播放声音、匹配排除规则以及允许列表中的标签页
+ * @param settings 用户设置
+ * @param excludeRules 排除规则
+ * @returns 需要归档的标签页
+ */
+export async function findIdleTabs(settings: UserSettings, excludeRules: ExcludeRule[]): Promise<ChromeTab[]> {
+  const tabs = await TabManager.getAllTabs();
+  const activity = await getActivity();
+  const now = Date.now();
+  const threshold = settings.idleArchiveMinutes * 60 * 1000;
+
+  // filterSaveableTabs 会排除固定标签页、扩展页面和匹配排除规则的标签页
+  const candidates = TabManager.filterSaveableTabs(tabs, excludeRules).filter(
+    (tab) => !tab.active && !tab.audible && !isAllowlisted(tab.url, settings.idleArchiveAllowlist)
+  );
+
+  const idleTabs: ChromeTab[] = [];
+  let activityChanged = false;
+
+  candidates.forEach((tab) => {
+    const lastSeen = Math.max(activity.lastSeen[tab.id] || 0, tab.lastAccessed || 0);
+
+    // 没有任何活跃记录的标签页从现在开始计时
+    if (!lastSeen) {
+      activity.lastSeen[tab.id] = now;
+      activityChanged = true;
+      return;
+    }
+
+    if (now - lastSeen >= threshold) {
+      idleTabs.push(tab);
+    }
+  });
+
+  if (activityChanged) {
+    await setActivity(activity);
+  }
+
+  return idleTabs;
+}
@@ -0,0 +1,174 @@
+/**
+ * 地址栏关键字搜索
+ * 输入 "ut 关键词" 时在已保存的分组和标签页中搜索，并生成地址栏建议
+ */
+
+import type { TabGroup } from '../types/background';
+import { StorageManager } from '../utils/storage';
+import { matchesGroupName, matchesTab } from '../utils/search';
+import { getNativeGroupStyle } from '../utils/groupAppearance';
+import { recordTabsOpened, restoreTabs } from './restore';
+
+/** "恢复分组"建议的内容前缀，后接分组ID */
+export const RESTORE_GROUP_SUGGESTION_PREFIX = 'uni-tab:restore-group:';
+
+/** 最多显示的建议数量 */
+const MAX_SUGGESTIONS = 8;
+
+/** 最多显示的"恢复分组"建议数量 */
+const MAX_GROUP_SUGGESTIONS = 2;
+
+/**
+ * 转义建议描述中的 XML 特殊字符
+ * @param text 原始文本
+ * @returns 转义后的文本
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * 设置默认建议（回车后在标签页列表中搜索）
+ */
+export function setDefaultOmniboxSuggestion(): void {
+  chrome.omnibox.setDefaultSuggestion({ description: '在 Uni Tab 中搜索: <match>%s</match>' });
+}
+
+/**
+ * 根据搜索词生成地址栏建议
+ * 名称匹配的分组生成"恢复分组"建议，其余为匹配的标签页，同一URL只出现一次
+ * @param groups 已保存的分组
+ * @param query 搜索词
+ * @returns 建议列表
+ */
+export function buildOmniboxSuggestions(groups: TabGroup[], query: string): chrome.omnibox.SuggestResult[] {
+  if (!query.trim()) {
+    return [];
+  }
+
+  const groupSuggestions = groups
+    .filter((group) => matchesGroupName(group, query))
+    .slice(0, MAX_GROUP_SUGGESTIONS)
+    .map((group) => ({
+      content: `${RESTORE_GROUP_SUGGESTION_PREFIX}${group.id}`,
+      description: `恢复分组: <match>${escapeXml(group.name)}</match> <dim>(${group.tabs.length} 个标签页)</dim>`
+    }));
+
+  const seenUrls = new Set<string>();
+  const tabSuggestions: chrome.omnibox.SuggestResult[] = [];
+
+  for (const group of groups) {
+    for (const tab of group.tabs) {
+      if (tabSuggestions.length + groupSuggestions.length >= MAX_SUGGESTIONS) {
+        break;
+      }
+      if (seenUrls.has(tab.url) || !(matchesTab(tab, query) || matchesGroupName(group, query))) {
+        continue;
+      }
+      seenUrls.add(tab.url);
+      tabSuggestions.push({
+        content: tab.url,
+        description: `${escapeXml(tab.title)} - <url>${escapeXml(tab.url)}</url> <dim>${escapeXml(group.name)}</dim>`
+      });
+    }
+  }
+
+  return [...groupSuggestions, ...tabSuggestions];
+}
+
+/**
+ * 从"恢复分组"建议内容中解析分组ID
+ * @param text 选中建议的内容
+ * @returns 分组ID，不是"恢复分组"建议时返回 null
+ */
+export function parseRestoreGroupSuggestion(text: string): string | null {
+  if (!text.startsWith(RESTORE_GROUP_SUGGESTION_PREFIX)) {
+    return null;
+  }
+  return text.substring(RESTORE_GROUP_SUGGESTION_PREFIX.length) || null;
+}
+
+/**
+ * 打开标签页列表页面
+ * 已经打开时切换到该页面，避免重复打开
+ * @param query 搜索词（可选），打开后按其过滤分组
+ */
+export async function openTabList(query?: string): Promise<void> {
+  try {
+    const baseUrl = chrome.runtime.getURL('tab_list.html');
+    const url = query ? `${baseUrl}?q=${encodeURIComponent(query)}` : baseUrl;
+    const tabs = await chrome.tabs.query({});
+    const existing = tabs.find((tab) => tab.url?.startsWith(baseUrl));
+
+    if (existing?.id) {
+      await chrome.tabs.update(existing.id, query ? { url, active: true } : { active: true });
+      await chrome.windows.update(existing.windowId, { focused: true });
+      return;
+    }
+
+    await chrome.tabs.create({ url });
+  } catch (error) {
+    console.error('Error opening tab list:', error);
+  }
+}
+
+/**
+ * 处理地址栏关键字的输入
+ * 选中"恢复分组"建议时恢复整个分组，选中标签页建议时打开其URL，否则在标签页列表中搜索
+ * @param text 选中建议的内容或用户输入的文本
+ * @param disposition 打开方式
+ */
+export async function handleOmniboxInput(
+  text: string,
+  disposition: chrome.omnibox.OnInputEnteredDisposition
+): Promise<void> {
+  try {
+    const groupId = parseRestoreGroupSuggestion(text);
+    if (groupId !== null) {
+      const data = await StorageManager.getData();
+      const group = data.groups.find((g: TabGroup) => g.id === groupId);
+      if (!group) {
+        throw new Error('分组不存在');
+      }
+      const userSettings = await StorageManager.getUserSettings();
+      await restoreTabs(
+        group.tabs,
+        {
+          openInNewWindow: userSettings.restoreInNewWindow,
+          nativeGroups: group.nativeGroups,
+          groupStyle: getNativeGroupStyle(group)
+        },
+        group.name
+      );
+      await recordTabsOpened([group.id]);
+      return;
+    }
+
+    // 选中的建议是已保存标签页的网址，用户直接输入的搜索词没有匹配
+    const [savedTab] = await StorageManager.findTabsByUrl(text);
+    if (!savedTab) {
+      await openTabList(text);
+      return;
+    }
+
+    switch (disposition) {
+      case 'newForegroundTab':
+        await chrome.tabs.create({ url: savedTab.tab.url });
+        break;
+      case 'newBackgroundTab':
+        await chrome.tabs.create({ url: savedTab.tab.url, active: false });
+        break;
+      case 'currentTab':
+      default:
+        await chrome.tabs.update({ url: savedTab.tab.url });
+    }
+    await recordTabsOpened([savedTab.groupId], [savedTab.tab.uid]);
+  } catch (error) {
+    console.error('Error handling omnibox input:', error);
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * 恢复已保存的标签页
+ * 恢复在后台作业中分批执行（见 restoreJobs），从已保存的分组恢复时记录标签页的打开情况
+ */
+
+import type {
+  ChromeTab,
+  MessageRequest,
+  NativeGroupStyle,
+  RestoreOptions,
+  TabData,
+  TabGroup,
+  WindowSummary
+} from '../types/background';
+import { StorageManager, formatDate, updateDataMetadata } from '../utils/storage';
+import { getNativeGroupStyle } from '../utils/groupAppearance';
+import { shouldConsumeOnRestore } from '../utils/restorePolicy';
+import { startRestoreJob } from './restoreJobs';
+import { dedupeRestoreTabs } from './restoreDedupe';
+import { filterTabsForSaving, saveTabsAsGroup } from './aggregate';
+import { triggerSyncIfEnabled } from './syncIntegration';
+
+/**
+ * 确定本次恢复是否延迟加载
+ * @param lazy 本次恢复指定的值（可选）
+ * @returns 未指定时使用"恢复时默认延迟加载"设置
+ */
+export async function resolveLazyRestore(lazy?: boolean): Promise<boolean> {
+  if (lazy !== undefined) {
+    return lazy;
+  }
+  const userSettings = await StorageManager.getUserSettings();
+  return userSettings.lazyRestore;
+}
+
+/**
+ * 恢复标签页
+ * 恢复在后台作业中分批执行，返回时标签页可能尚未全部打开
+ * 已在某个窗口中打开的标签页按去重设置处理
+ * @param tabs 要恢复的标签页列表
+ * @param options 恢复选项（未指定 lazy、dedupe 时使用用户设置）
+ * @param label 作业显示名称（一般为分组名称）
+ * @returns 恢复作业ID
+ */
+export async function restoreTabs(
+  tabs: TabData[],
+  options: RestoreOptions = {},
+  label = '恢复标签页'
+): Promise<string> {
+  try {
+    const lazy = await resolveLazyRestore(options.lazy);
+    const dedupe = options.dedupe ?? (await StorageManager.getUserSettings()).restoreDedupeMode;
+    const result = await dedupeRestoreTabs(tabs, dedupe, options.replaceTabIds);
+
+    return await startRestoreJob(
+      label,
+      [{ tabs: result.tabs, options: { ...options, lazy, dedupe, adoptTabIds: result.adoptTabIds } }],
+      result.summary
+    );
+  } catch (error) {
+    console.error('Error restoring tabs:', error);
+    throw error;
+  }
+}
+
+/**
+ * 获取已保存分组恢复时使用的原生标签组样式
+ * @param groupId 分组ID
+ * @returns 原生标签组样式，分组不存在或没有颜色时返回 undefined
+ */
+export async function getSavedGroupStyle(groupId: string): Promise<NativeGroupStyle | undefined> {
+  const data = await StorageManager.getData();
+  const group = data.groups.find((g: TabGroup) => g.id === groupId);
+  return group ? getNativeGroupStyle(group) : undefined;
+}
+
+/**
+ * 记录分组中的标签页被重新打开：更新最后打开时间并累加打开次数
+ * 仅用于统计，失败时不影响恢复
+ * @param groupIds 分组ID列表
+ * @param tabUids 只记录其中指定的标签页（可选，默认记录分组内全部标签页）
+ */
+export async function recordTabsOpened(groupIds: string[], tabUids?: string[]): Promise<void> {
+  try {
+    const data = await StorageManager.getData();
+    const targetGroupIds = new Set(groupIds);
+    const targetTabUids = tabUids && new Set(tabUids);
+    const now = new Date().toISOString();
+
+    const openedTabs = data.groups
+      .filter((g: TabGroup) => targetGroupIds.has(g.id))
+      .flatMap((g: TabGroup) => g.tabs)
+      .filter((tab: TabData) => !targetTabUids || targetTabUids.has(tab.uid));
+
+    if (openedTabs.length === 0) {
+      return;
+    }
+
+    openedTabs.forEach((tab: TabData) => {
+      tab.lastOpenedAt = now;
+      tab.openCount = (tab.openCount ?? 0) + 1;
+    });
+
+    await StorageManager.setData(updateDataMetadata(data));
+    await triggerSyncIfEnabled();
+  } catch (error) {
+    console.error('Error recording opened tabs:', error);
+  }
+}
+
+/**
+ * 获取可作为恢复目标的窗口
+ * @returns 普通窗口列表，当前窗口排在最前
+ */
+export async function getWindows(): Promise<WindowSummary[]> {
+  try {
+    const windows = await chrome.windows.getAll({ populate: true, windowTypes: ['normal'] });
+    return windows
+      .filter((window) => window.id !== undefined)
+      .map((window) => ({
+        id: window.id as number,
+        title: window.tabs?.find((tab) => tab.active)?.title || '未命名窗口',
+        tabCount: window.tabs?.length ?? 0,
+        focused: window.focused
+      }))
+      .sort((a, b) => Number(b.focused) - Number(a.focused));
+  } catch (error) {
+    console.error('Error getting windows:', error);
+    throw error;
+  }
+}
+
+/**
+ * 根据请求确定恢复到哪个窗口
+ * 替换当前窗口时，当前窗口中未固定的标签页会在新标签页打开后关闭（标签页列表页面除外）
+ * @param request 恢复请求
+ * @returns 恢复选项中与目标窗口相关的部分
+ */
+export async function resolveRestoreTarget(request: MessageRequest): Promise<RestoreOptions> {
+  if (!request.replaceCurrentWindow) {
+    return { openInNewWindow: request.openInNewWindow, windowId: request.windowId };
+  }
+
+  const window = await chrome.windows.getLastFocused({ populate: true, windowTypes: ['normal'] });
+  const tabListUrl = chrome.runtime.getURL('tab_list.html');
+  const replacedTabs = ((window.tabs || []) as ChromeTab[]).filter(
+    (tab) => !tab.pinned && !tab.url?.startsWith(tabListUrl)
+  );
+
+  if (request.saveReplacedTabs) {
+    const data = await StorageManager.getData();
+    const tabsToSave = await filterTabsForSaving(replacedTabs, data);
+    if (tabsToSave.length > 0) {
+      await saveTabsAsGroup(`替换前的窗口 - ${formatDate(new Date())}`, tabsToSave);
+    }
+  }
+
+  return {
+    windowId: window.id,
+    replaceTabIds: replacedTabs.map((tab) => tab.id).filter((id): id is number => id !== undefined)
+  };
+}
+
+/**
+ * 按原窗口布局恢复一个批次
+ * 批次中的每个分组在各自的新窗口中恢复，并尽量还原窗口的位置和尺寸
+ * @param batchId 批次ID
+ * @param lazy 是否延迟加载（可选，默认使用用户设置）
+ * @returns 恢复作业ID
+ */
+export async function restoreBatch(batchId: number, lazy?: boolean): Promise<string> {
+  try {
+    const data = await StorageManager.getData();
+    const groups = data.groups
+      .filter((g: TabGroup) => g.batchId === batchId)
+      .sort((a: TabGroup, b: TabGroup) => (a.windowIndex ?? 0) - (b.windowIndex ?? 0));
+
+    if (groups.length === 0) {
+      throw new Error('批次不存在');
+    }
+
+    const lazyRestore = await resolveLazyRestore(lazy);
+
+    const jobId = await startRestoreJob(
+      `恢复窗口布局（${groups.length} 个窗口）`,
+      groups.map((group) => ({
+        tabs: group.tabs,
+        options: {
+          openInNewWindow: true,
+          windowLayout: group.windowLayout,
+          nativeGroups: group.nativeGroups,
+          groupStyle: getNativeGroupStyle(group),
+          lazy: lazyRestore
+        }
+      }))
+    );
+
+    await recordTabsOpened(groups.map((group) => group.id));
+    return jobId;
+  } catch (error) {
+    console.error('Error restoring batch:', error);
+    throw error;
+  }
+}
+
+/**
+ * 恢复最近保存的分组
+ * 是否在新窗口中打开取决于"恢复时在新窗口打开"设置
+ */
+export async function restoreLastGroup(): Promise<void> {
+  try {
+    const data = await StorageManager.getData();
+    const lastGroup = data.groups.reduce<TabGroup | undefined>(
+      (latest, group) => (!latest || group.createdAt > latest.createdAt ? group : latest),
+      undefined
+    );
+
+    if (!lastGroup) {
+      console.log('No group to restore');
+      return;
+    }
+
+    const userSettings = await StorageManager.getUserSettings();
+    await restoreTabs(
+      lastGroup.tabs,
+      {
+        openInNewWindow: userSettings.restoreInNewWindow,
+        nativeGroups: lastGroup.nativeGroups,
+        groupStyle: getNativeGroupStyle(lastGroup)
+      },
+      lastGroup.name
+    );
+    await recordTabsOpened([lastGroup.id]);
+
+    console.log(`Restoring last group: ${lastGroup.name}`);
+  } catch (error) {
+    console.error('Error restoring last group:', error);
+  }
+}
+
+/**
+ * 恢复分组中的单个标签页
+ * 打开后按"恢复后的移除策略"决定是否从分组中移除，分组被取空时一并删除
+ * @param groupId 分组ID
+ * @param tabUid 标签页ID
+ * @returns 标签页是否已从分组中移除
+ */
+export async function restoreTab(groupId: string, tabUid: string): Promise<boolean> {
+  try {
+    const group = (await StorageManager.getData()).groups.find((g: TabGroup) => g.id === groupId);
+    const tab = group?.tabs.find((t: TabData) => t.uid === tabUid);
+
+    if (!group || !tab) {
+      throw new Error('标签页不存在');
+    }
+
+    await chrome.tabs.create({ url: tab.url, pinned: tab.pinned, active: true });
+
+    const userSettings = await StorageManager.getUserSettings();
+    if (!shouldConsumeOnRestore(group, userSettings.restoreConsumePolicy)) {
+      await recordTabsOpened([groupId], [tab.uid]);
+      return false;
+    }
+
+    // 打开标签页期间数据可能已变化，重新读取后再移除
+    const data = await StorageManager.getData();
+    const current = data.groups.find((g: TabGroup) => g.id === groupId);
+    if (!current) {
+      return false;
+    }
+
+    const index = current.tabs.findIndex((t: TabData) => t.uid === tabUid);
+    if (index === -1) {
+      return false;
+    }
+
+    current.tabs.splice(index, 1);
+    if (current.tabs.length === 0) {
+      data.groups = data.groups.filter((g: TabGroup) => g.id !== groupId);
+    }
+
+    await StorageManager.setData(updateDataMetadata(data));
+    await triggerSyncIfEnabled();
+
+    console.log(`Restored and removed tab from group ${groupId}: ${tab.url}`);
+    return true;
+  } catch (error) {
+    console.error('Error restoring tab:', error);
+    throw error;
+  }
+}
+
+/**
+ * 恢复整个分组并将其从列表中移除
+ * 锁定的分组只恢复、不移除
+ * @param groupId 分组ID
+ * @param options 恢复选项（未指定 lazy 时使用用户设置）
+ * @returns 恢复作业ID
+ */
+export async function restoreAndRemove(groupId: string, options: RestoreOptions = {}): Promise<string> {
+  try {
+    const data = await StorageManager.getData();
+    const group = data.groups.find((g: TabGroup) => g.id === groupId);
+
+    if (!group) {
+      throw new Error('分组不存在');
+    }
+
+    const jobId = await restoreTabs(
+      group.tabs,
+      { ...options, nativeGroups: group.nativeGroups, groupStyle: getNativeGroupStyle(group) },
+      group.name
+    );
+
+    if (group.locked) {
+      console.log(`Group ${groupId} is locked, restored without removing`);
+      await recordTabsOpened([groupId]);
+      return jobId;
+    }
+
+    data.groups = data.groups.filter((g: TabGroup) => g.id !== groupId);
+    await StorageManager.setData(updateDataMetadata(data));
+    await triggerSyncIfEnabled();
+
+    console.log(`Restored and removed group: ${group.name}`);
+    return jobId;
+  } catch (error) {
+    console.error('Error restoring and removing group:', error);
+    throw error;
+  }
+}
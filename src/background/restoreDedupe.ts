@@ -0,0 +1,91 @@
+/**
+ * 恢复时去重
+ * 恢复前检查要恢复的标签页是否已在某个窗口中打开，按用户选择跳过、切换到或移入目标窗口
+ */
+
+import type { ChromeTab, RestoreDedupeMode, RestoreDedupeSummary, TabData } from '../types/background';
+import { TabManager } from '../utils/tabs';
+
+/**
+ * 去重结果
+ */
+export interface RestoreDedupeResult {
+  /** 仍需打开的标签页 */
+  tabs: TabData[];
+  /** 需要移入目标窗口的已打开标签页ID */
+  adoptTabIds: number[];
+  /** 去重结果摘要，未去重时为空 */
+  summary?: RestoreDedupeSummary;
+}
+
+/**
+ * 按规范化URL索引当前打开的标签页
+ * 延迟加载的占位页按其原网址索引
+ * @param excludeTabIds 不参与匹配的标签页ID（如替换窗口时将被关闭的标签页）
+ */
+async function indexOpenTabs(excludeTabIds: number[]): Promise<Map<string, ChromeTab>> {
+  const excluded = new Set(excludeTabIds);
+  const openTabs = new Map<string, ChromeTab>();
+
+  for (const tab of await TabManager.getAllTabs()) {
+    const resolved = TabManager.resolveLazyTab(tab);
+    if (resolved.id === undefined || excluded.has(resolved.id) || !resolved.url) {
+      continue;
+    }
+    const key = TabManager.normalizeUrl(resolved.url);
+    if (!openTabs.has(key)) {
+      openTabs.set(key, resolved);
+    }
+  }
+
+  return openTabs;
+}
+
+/**
+ * 恢复前去重
+ * 切换模式下会立即激活匹配的标签页；移动模式下返回的标签页在恢复完成后移入目标窗口
+ * @param tabs 要恢复的标签页
+ * @param mode 已打开标签页的处理方式
+ * @param excludeTabIds 不参与匹配的标签页ID
+ * @returns 去重结果
+ */
+export async function dedupeRestoreTabs(
+  tabs: TabData[],
+  mode: RestoreDedupeMode,
+  excludeTabIds: number[] = []
+): Promise<RestoreDedupeResult> {
+  if (mode === 'off') {
+    return { tabs, adoptTabIds: [] };
+  }
+
+  const openTabs = await indexOpenTabs(excludeTabIds);
+  const remaining: TabData[] = [];
+  const matchedIds = new Set<number>();
+
+  for (const tab of tabs) {
+    const match = openTabs.get(TabManager.normalizeUrl(tab.url));
+    if (match?.id !== undefined) {
+      matchedIds.add(match.id);
+    } else {
+      remaining.push(tab);
+    }
+  }
+
+  const matched = tabs.length - remaining.length;
+  if (matched > 0) {
+    console.log(`Restore dedupe (${mode}): ${matched} tabs already open`);
+  }
+
+  if (mode === 'focus') {
+    for (const tabId of matchedIds) {
+      // 标签页可能已被关闭，不影响恢复
+      await TabManager.activateTab(tabId).catch(() => undefined);
+    }
+  }
+
+  return {
+    tabs: remaining,
+    adoptTabIds: mode === 'move' ? [...matchedIds] : [],
+    summary: { mode, matched }
+  };
+}
@@ -0,0 +1,295 @@
+/**
+ * 恢复作业
+ * 大量标签页的恢复在后台分批执行：每批创建少量标签页后暂停片刻，避免浏览器卡顿
+ * 作业进度保存在 chrome.storage.session 中，Service Worker 被挂起后可以从中断处继续
+ */
+
+import type {
+  RestoreCancelRequest,
+  RestoreDedupeSummary,
+  RestoreJob,
+  RestoreJobProgress,
+  RestoreOptions,
+  RestoreProgressEvent,
+  TabData
+} from '../types/background';
+import { generateUuid } from '../utils/storage';
+import { TabManager } from '../utils/tabs';
+import { RESTORE_PROGRESS_PORT } from '../utils/restoreProgress';
+import { withTabCapSuspended } from './tabCap';
+
+/** 作业继续执行的定时器名称，作业进行期间定期唤醒 Service Worker */
+export const RESTORE_RESUME_ALARM = 'restore-resume';
+
+/** 作业列表的会话存储键名 */
+const JOBS_KEY = 'restoreJobs';
+
+/** 每批创建的标签页数量 */
+const BATCH_SIZE = 5;
+
+/** 两批之间的间隔（毫秒） */
+const BATCH_DELAY_MS = 300;
+
+/** 作业进行期间唤醒 Service Worker 的间隔（分钟） */
+const RESUME_INTERVAL_MINUTES = 0.5;
+
+/** 已连接的进度端口 */
+const ports = new Set<chrome.runtime.Port>();
+
+/** 已请求取消的作业ID */
+const cancelRequests = new Set<string>();
+
+/** 作业列表的写入队列，保证读改写不会互相覆盖 */
+let jobsQueue: Promise<unknown> = Promise.resolve();
+
+/** 当前 Service Worker 是否正在执行作业 */
+let processing = false;
+
+/**
+ * 新建作业时的一个恢复任务
+ */
+export interface RestoreTaskInput {
+  tabs: TabData[];
+  options: RestoreOptions;
+}
+
+/**
+ * 读取全部作业
+ */
+async function getJobs(): Promise<RestoreJob[]> {
+  const result = await chrome.storage.session.get(JOBS_KEY);
+  return (result[JOBS_KEY] as RestoreJob[]) || [];
+}
+
+/**
+ * 串行修改作业列表
+ * @param update 根据当前作业列表返回新的作业列表
+ */
+function updateJobs(update: (jobs: RestoreJob[]) => RestoreJob[]): Promise<void> {
+  const next = jobsQueue.then(async () => {
+    const jobs = await getJobs();
+    await chrome.storage.session.set({ [JOBS_KEY]: update(jobs) });
+  });
+  jobsQueue = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * 保存单个作业
+ * @param job 作业
+ */
+function saveJob(job: RestoreJob): Promise<void> {
+  return updateJobs((jobs) => jobs.map((j) => (j.id === job.id ? job : j)));
+}
+
+/**
+ * 转换为发送给页面的进度（不包含标签页数据）
+ * @param job 作业
+ */
+function toProgress(job: RestoreJob): RestoreJobProgress {
+  return {
+    id: job.id,
+    label: job.label,
+    total: job.total,
+    restored: job.restored,
+    status: job.status,
+    error: job.error,
+    dedupe: job.dedupe
+  };
+}
+
+/**
+ * 向所有已连接的页面发送作业进度
+ * @param jobs 作业列表
+ */
+function broadcast(jobs: RestoreJob[]): void {
+  const event: RestoreProgressEvent = { type: 'jobs', jobs: jobs.map(toProgress) };
+  ports.forEach((port) => {
+    try {
+      port.postMessage(event);
+    } catch {
+      ports.delete(port);
+    }
+  });
+}
+
+/**
+ * 读取最新作业列表并发送进度
+ */
+async function broadcastJobs(): Promise<void> {
+  broadcast(await getJobs());
+}
+
+/**
+ * 等待一段时间
+ * @param ms 毫秒
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 分批执行作业中的当前任务
+ * @param job 作业（原地更新进度）
+ * @returns 任务是否完成，作业被取消时返回 false
+ */
+async function runCurrentTask(job: RestoreJob): Promise<boolean> {
+  const task = job.tasks[job.current];
+
+  while (task.next < task.tabs.length) {
+    if (cancelRequests.has(job.id)) {
+      return false;
+    }
+
+    const before = task.next;
+    await TabManager.restoreNextTabs(task, BATCH_SIZE);
+    job.restored += task.next - before;
+
+    await saveJob(job);
+    await broadcastJobs();
+    await delay(BATCH_DELAY_MS);
+  }
+
+  await TabManager.finishRestoreTask(task);
+  return true;
+}
+
+/**
+ * 执行作业直到完成、取消或失败，结束后从作业列表中移除
+ * @param job 作业
+ */
+async function runJob(job: RestoreJob): Promise<void> {
+  job.status = 'running';
+
+  try {
+    while (job.current < job.tasks.length) {
+      if (!(await runCurrentTask(job))) {
+        job.status = 'cancelled';
+        break;
+      }
+      job.current++;
+      await saveJob(job);
+    }
+    if (job.status === 'running') {
+      job.status = 'completed';
+    }
+  } catch (error) {
+    console.error('Restore job failed:', error);
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : String(error);
+  }
+
+  console.log(`Restore job ${job.id} ${job.status}: ${job.restored}/${job.total} tabs`);
+
+  // 先发送最终状态，再从作业列表中移除
+  const jobs = await getJobs();
+  broadcast(jobs.map((j) => (j.id === job.id ? job : j)));
+  await updateJobs((list) => list.filter((j) => j.id !== job.id));
+  cancelRequests.delete(job.id);
+}
+
+/**
+ * 依次执行所有未完成的作业
+ * 同一时间只执行一个作业，执行期间暂停窗口标签页上限检查
+ */
+async function processJobs(): Promise<void> {
+  if (processing) {
+    return;
+  }
+  processing = true;
+
+  try {
+    await chrome.alarms.create(RESTORE_RESUME_ALARM, { periodInMinutes: RESUME_INTERVAL_MINUTES });
+
+    await withTabCapSuspended(async () => {
+      let job = (await getJobs()).find((j) => j.status === 'queued' || j.status === 'running');
+      while (job) {
+        await runJob(job);
+        job = (await getJobs()).find((j) => j.status === 'queued' || j.status === 'running');
+      }
+    });
+  } catch (error) {
+    console.error('Error processing restore jobs:', error);
+  } finally {
+    processing = false;
+    await chrome.alarms.clear(RESTORE_RESUME_ALARM);
+  }
+}
+
+/**
+ * 新建恢复作业并开始执行
+ * @param label 显示名称
+ * @param tasks 恢复任务，每个任务对应一个窗口
+ * @param dedupe 恢复前去重的结果（可选）
+ * @returns 作业ID
+ */
+export async function startRestoreJob(
+  label: string,
+  tasks: RestoreTaskInput[],
+  dedupe?: RestoreDedupeSummary
+): Promise<string> {
+  const job: RestoreJob = {
+    id: generateUuid(),
+    label,
+    tasks: tasks.map((task) => TabManager.createRestoreTask(task.tabs, task.options)),
+    current: 0,
+    total: tasks.reduce((sum, task) => sum + task.tabs.length, 0),
+    restored: 0,
+    status: 'queued',
+    dedupe
+  };
+
+  await updateJobs((jobs) => [...jobs, job]);
+  await broadcastJobs();
+
+  processJobs();
+
+  return job.id;
+}
+
+/**
+ * 继续执行中断的作业
+ * 在 Service Worker 启动时以及定时器触发时调用
+ */
+export function resumeRestoreJobs(): void {
+  processJobs();
+}
+
+/**
+ * 取消恢复作业
+ * 已创建的标签页保留，尚未开始的作业直接移除
+ * @param jobId 作业ID
+ */
+export async function cancelRestoreJob(jobId: string): Promise<void> {
+  cancelRequests.add(jobId);
+
+  const jobs = await getJobs();
+  const job = jobs.find((j) => j.id === jobId);
+  if (job?.status === 'queued') {
+    broadcast(jobs.map((j) => (j.id === jobId ? { ...j, status: 'cancelled' as const } : j)));
+    await updateJobs((list) => list.filter((j) => j.id !== jobId));
+    cancelRequests.delete(jobId);
+  }
+}
+
+/**
+ * 处理页面的进度端口连接
+ * 需要在 Service Worker 顶层同步调用
+ */
+export function registerRestoreProgressPort(): void {
+  chrome.runtime.onConnect.addListener((port: chrome.runtime.Port) => {
+    if (port.name !== RESTORE_PROGRESS_PORT) {
+      return;
+    }
+
+    ports.add(port);
+    port.onDisconnect.addListener(() => ports.delete(port));
+    port.onMessage.addListener((message: RestoreCancelRequest) => {
+      if (message.type === 'cancel') {
+        cancelRestoreJob(message.jobId);
+      }
+    });
+
+    broadcastJobs();
+  });
+}
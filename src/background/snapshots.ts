@@ -0,0 +1,344 @@
+/**
+ * 会话快照
+ * 定期以及在窗口关闭时记录所有打开的窗口，用于浏览器崩溃或误关窗口后恢复
+ * 快照保存在独立的存储键中，不与分组数据混在一起，也不参与同步
+ */
+
+import type {
+  ChromeTab,
+  ExcludeRule,
+  SessionSnapshot,
+  SnapshotReason,
+  SnapshotWindow,
+  TabGroup
+} from '../types/background';
+import { StorageManager, formatDate, generateId, generateUuid, updateDataMetadata } from '../utils/storage';
+import { TabManager } from '../utils/tabs';
+import { getExcludeRules } from '../utils/excludeRules';
+import { startRestoreJob } from './restoreJobs';
+import { resolveLazyRestore } from './restore';
+import { triggerSyncIfEnabled } from './syncIntegration';
+
+/** 定时快照的定时器名称 */
+export const SNAPSHOT_ALARM = 'session-snapshot';
+
+/** 定时快照间隔（分钟） */
+const SNAPSHOT_INTERVAL_MINUTES = 5;
+
+/** 快照列表的存储键名 */
+const SNAPSHOTS_KEY = 'sessionSnapshots';
+
+/** 当前窗口状态的会话存储键名，窗口关闭后仍可从中取回其标签页 */
+const LIVE_STATE_KEY = 'liveSessionState';
+
+/** 最多保留的快照数量，超出后丢弃最早的快照 */
+const MAX_SNAPSHOTS = 20;
+
+/** 标签页变化后延迟刷新当前窗口状态的时间（毫秒），合并连续的变化 */
+const LIVE_STATE_DEBOUNCE_MS = 1000;
+
+/** 等待中的当前窗口状态刷新 */
+let liveStateTimer: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * 读取当前的排除规则
+ */
+async function loadExcludeRules(): Promise<ExcludeRule[]> {
+  return getExcludeRules(await StorageManager.getSettings());
+}
+
+/**
+ * 记录所有普通窗口（不含隐身窗口）的标签页
+ * 快照需要完整还原窗口，因此保留固定标签页
+ * @param excludeRules 排除规则
+ * @returns 窗口列表
+ */
+async function captureWindows(excludeRules: ExcludeRule[]): Promise<SnapshotWindow[]> {
+  const windows = await chrome.windows.getAll({ populate: true, windowTypes: ['normal'] });
+  const snapshotWindows: SnapshotWindow[] = [];
+
+  for (const window of windows) {
+    if (window.incognito || window.id === undefined) {
+      continue;
+    }
+
+    const tabs = TabManager.filterSaveableTabs((window.tabs || []) as ChromeTab[], excludeRules, true);
+    if (tabs.length === 0) {
+      continue;
+    }
+
+    const tabData = TabManager.chromeTabsToTabData(tabs);
+    const activeTab = tabs.find((tab) => tab.active) || tabs[0];
+
+    snapshotWindows.push({
+      windowId: window.id,
+      title: activeTab.title || '未命名窗口',
+      layout: await TabManager.getWindowLayout(window.id),
+      tabs: tabData,
+      nativeGroups: await TabManager.captureNativeGroups(tabData)
+    });
+  }
+
+  return snapshotWindows;
+}
+
+/**
+ * 计算窗口列表的内容签名，用于跳过与上一个快照相同的快照
+ * @param windows 窗口列表
+ */
+function getWindowsSignature(windows: SnapshotWindow[]): string {
+  return windows.map((window) => window.tabs.map((tab) => tab.url).join('\n')).join('\n\n');
+}
+
+/**
+ * 获取全部快照（最新的在前）
+ */
+export async function getSnapshots(): Promise<SessionSnapshot[]> {
+  const result = await chrome.storage.local.get(SNAPSHOTS_KEY);
+  return (result[SNAPSHOTS_KEY] as SessionSnapshot[]) || [];
+}
+
+/**
+ * 根据ID查找快照
+ * @param snapshotId 快照ID
+ * @returns 快照，不存在时返回 undefined
+ */
+export async function findSnapshot(snapshotId: number): Promise<SessionSnapshot | undefined> {
+  const snapshots = await getSnapshots();
+  return snapshots.find((snapshot) => snapshot.id === snapshotId);
+}
+
+/**
+ * 将快照写入环形缓冲区
+ * 内容与最新快照相同时跳过
+ * @param reason 触发原因
+ * @param windows 窗口列表
+ */
+async function saveSnapshot(reason: SnapshotReason, windows: SnapshotWindow[]): Promise<void> {
+  if (windows.length === 0) {
+    return;
+  }
+
+  const snapshots = await getSnapshots();
+  if (snapshots[0] && getWindowsSignature(snapshots[0].windows) === getWindowsSignature(windows)) {
+    return;
+  }
+
+  const snapshot: SessionSnapshot = {
+    id: generateId(),
+    createdAt: new Date().toISOString(),
+    reason,
+    windows
+  };
+
+  await chrome.storage.local.set({ [SNAPSHOTS_KEY]: [snapshot, ...snapshots].slice(0, MAX_SNAPSHOTS) });
+  console.log(`Session snapshot saved (${reason}): ${windows.length} windows`);
+}
+
+/**
+ * 立即记录一次快照
+ */
+export async function takeSnapshot(): Promise<void> {
+  try {
+    await saveSnapshot('interval', await captureWindows(await loadExcludeRules()));
+  } catch (error) {
+    console.error('Failed to take session snapshot:', error);
+  }
+}
+
+/**
+ * 删除快照
+ * @param snapshotId 快照ID
+ */
+export async function deleteSnapshot(snapshotId: number): Promise<void> {
+  const snapshots = await getSnapshots();
+  await chrome.storage.local.set({
+    [SNAPSHOTS_KEY]: snapshots.filter((snapshot) => snapshot.id !== snapshotId)
+  });
+}
+
+/**
+ * 刷新当前窗口状态
+ */
+async function refreshLiveState(): Promise<void> {
+  try {
+    const windows = await captureWindows(await loadExcludeRules());
+    await chrome.storage.session.set({ [LIVE_STATE_KEY]: windows });
+  } catch (error) {
+    console.error('Failed to refresh live session state:', error);
+  }
+}
+
+/**
+ * 延迟刷新当前窗口状态
+ */
+function scheduleLiveStateRefresh(): void {
+  clearTimeout(liveStateTimer);
+  liveStateTimer = setTimeout(refreshLiveState, LIVE_STATE_DEBOUNCE_MS);
+}
+
+/**
+ * 窗口关闭时以关闭前的窗口状态记录快照
+ * 此时窗口中的标签页已无法查询，只能从当前窗口状态中取回
+ * @param windowId 关闭的窗口ID
+ */
+async function handleWindowRemoved(windowId: number): Promise<void> {
+  try {
+    clearTimeout(liveStateTimer);
+    const result = await chrome.storage.session.get(LIVE_STATE_KEY);
+    const windows = (result[LIVE_STATE_KEY] as SnapshotWindow[]) || [];
+
+    if (windows.some((window) => window.windowId === windowId)) {
+      await saveSnapshot('windowClosed', windows);
+    }
+  } catch (error) {
+    console.error('Failed to snapshot closed window:', error);
+  }
+
+  await refreshLiveState();
+}
+
+/**
+ * 注册维护当前窗口状态的监听器
+ * 需要在 Service Worker 顶层同步调用
+ */
+export function registerSnapshotListeners(): void {
+  chrome.tabs.onCreated.addListener(scheduleLiveStateRefresh);
+  chrome.tabs.onUpdated.addListener((_tabId: number, changeInfo: chrome.tabs.OnUpdatedInfo) => {
+    if (changeInfo.url || changeInfo.title || changeInfo.pinned !== undefined || changeInfo.groupId !== undefined) {
+      scheduleLiveStateRefresh();
+    }
+  });
+  chrome.tabs.onRemoved.addListener((_tabId: number, removeInfo: chrome.tabs.OnRemovedInfo) => {
+    // 整个窗口关闭时保留其状态，交给 windows.onRemoved 记录快照
+    if (!removeInfo.isWindowClosing) {
+      scheduleLiveStateRefresh();
+    }
+  });
+  chrome.tabs.onMoved.addListener(scheduleLiveStateRefresh);
+  chrome.tabs.onAttached.addListener(scheduleLiveStateRefresh);
+  chrome.tabs.onDetached.addListener(scheduleLiveStateRefresh);
+  chrome.tabs.onActivated.addListener(scheduleLiveStateRefresh);
+  chrome.windows.onRemoved.addListener(handleWindowRemoved);
+}
+
+/**
+ * 创建定时快照的定时器
+ */
+export async function scheduleSnapshots(): Promise<void> {
+  try {
+    const existing = await chrome.alarms.get(SNAPSHOT_ALARM);
+    if (!existing) {
+      await chrome.alarms.create(SNAPSHOT_ALARM, { periodInMinutes: SNAPSHOT_INTERVAL_MINUTES });
+      console.log('Session snapshots scheduled');
+    }
+  } catch (error) {
+    console.error('Failed to schedule session snapshots:', error);
+  }
+
+  await refreshLiveState();
+}
+
+/**
+ * 获取快照中要处理的窗口
+ * @param snapshotId 快照ID
+ * @param windowIndex 窗口序号（可选，默认全部窗口）
+ * @returns 快照记录时间和窗口列表
+ */
+async function getSnapshotWindows(
+  snapshotId: number,
+  windowIndex?: number
+): Promise<{ createdAt: string; windows: SnapshotWindow[] }> {
+  const snapshot = await findSnapshot(snapshotId);
+
+  if (!snapshot) {
+    throw new Error('快照不存在');
+  }
+
+  if (windowIndex === undefined) {
+    return { createdAt: snapshot.createdAt, windows: snapshot.windows };
+  }
+
+  const window = snapshot.windows[windowIndex];
+  if (!window) {
+    throw new Error('快照中不存在该窗口');
+  }
+  return { createdAt: snapshot.createdAt, windows: [window] };
+}
+
+/**
+ * 恢复会话快照
+ * 每个窗口在新窗口中恢复，并尽量还原窗口的位置和尺寸
+ * @param snapshotId 快照ID
+ * @param windowIndex 只恢复指定序号的窗口（可选）
+ * @param lazy 是否延迟加载（可选，默认使用用户设置）
+ * @returns 恢复作业ID
+ */
+export async function restoreSnapshot(snapshotId: number, windowIndex?: number, lazy?: boolean): Promise<string> {
+  try {
+    const { windows } = await getSnapshotWindows(snapshotId, windowIndex);
+    const lazyRestore = await resolveLazyRestore(lazy);
+
+    return await startRestoreJob(
+      `恢复会话快照（${windows.length} 个窗口）`,
+      windows.map((window) => ({
+        tabs: window.tabs,
+        options: {
+          openInNewWindow: true,
+          windowLayout: window.layout,
+          nativeGroups: window.nativeGroups,
+          lazy: lazyRestore
+        }
+      }))
+    );
+  } catch (error) {
+    console.error('Error restoring snapshot:', error);
+    throw error;
+  }
+}
+
+/**
+ * 将会话快照转换为普通分组
+ * 每个窗口生成一个分组，同属一个批次，可按原窗口布局恢复
+ * @param snapshotId 快照ID
+ * @param windowIndex 只转换指定序号的窗口（可选）
+ * @returns 新建的分组数量
+ */
+export async function snapshotToGroups(snapshotId: number, windowIndex?: number): Promise<number> {
+  try {
+    const { createdAt, windows } = await getSnapshotWindows(snapshotId, windowIndex);
+    const data = await StorageManager.getData();
+    const batchId = generateId();
+    const snapshotTime = formatDate(new Date(createdAt));
+    const now = new Date().toISOString();
+    const sourceDeviceId = await StorageManager.getDeviceId();
+
+    const groups = windows.map((window, index): TabGroup => ({
+      id: generateUuid(),
+      name: `快照 ${snapshotTime} - ${window.title}`,
+      createdAt: now,
+      pinned: false,
+      locked: false,
+      // 同一快照可多次转换，每次为标签页分配新的ID
+      tabs: window.tabs.map((tab) => ({ ...tab, uid: generateUuid(), addedAt: now, openCount: 0, sourceDeviceId })),
+      batchId,
+      windowIndex: index,
+      windowLayout: window.layout,
+      nativeGroups: window.nativeGroups
+    }));
+
+    data.groups.unshift(...groups);
+
+    await StorageManager.setData(updateDataMetadata(data));
+
+    console.log(`Converted snapshot ${snapshotId} into ${groups.length} groups`);
+
+    // 触发同步（如果启用）
+    await triggerSyncIfEnabled();
+
+    return groups.length;
+  } catch (error) {
+    console.error('Error converting snapshot to groups:', error);
+    throw error;
+  }
+}
@@ -141,3 +141,51 @@ export async function performStartupSync(): Promise<void> {
     console.error('Startup sync failed:', error);
   }
 }
+
+/**
+ * 检查是否配置了远程同步并触发同步
+ * 修复：不应该仅检查 providerConfig 是否为空，而应该检查提供商是否真正认证成功
+ */
+export async function triggerSyncIfEnabled(): Promise<void> {
+  try {
+    // 检查是否配置了远程同步提供商
+    const config = syncManager.config;
+    console.log('Checking sync config:', config);
+
+    // 修复：使用 isAuthenticated 方法检查是否真正配置了远程同步
+    // 而不是仅仅检查 providerConfig 是否为空对象
+    const isAuthenticated = await syncManager.isAuthenticated();
+    console.log('Is remote sync authenticated:', isAuthenticated);
+
+    if (!isAuthenticated) {
+      console.log('Remote sync not configured or not authenticated, skipping auto sync');
+      return; // 未配置远程同步或认证失败，跳过
+    }
+
+    console.log('Triggering auto sync after data change');
+    // 异步触发同步，不等待结果
+    syncManager.sync().catch((error) => {
+      console.log('Background sync failed:', error);
+    });
+  } catch (error) {
+    console.error('Error checking sync status:', error);
+  }
+}
+
+/**
+ * 立即执行一次同步
+ * 未配置远程同步时跳过
+ */
+export async function syncNow(): Promise<void> {
+  try {
+    if (!(await syncManager.isAuthenticated())) {
+      console.log('Remote sync not configured or not authenticated, skipping sync');
+      return;
+    }
+
+    const result = await syncManager.sync();
+    console.log('Sync finished:', result.success ? 'success' : result.error);
+  } catch (error) {
+    console.error('Error syncing:', error);
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * 窗口标签页数量上限
+ * 窗口标签页超过上限时找出最久未使用的标签页，并记录可撤销的溢出归档
+ */
+
+import type { ChromeTab, ExcludeRule, UserSettings } from '../types/background';
+import { TabManager } from '../utils/tabs';
+
+/** 溢出归档通知ID前缀 */
+export const OVERFLOW_NOTIFICATION_PREFIX = 'tab-overflow:';
+
+/** 撤销记录的会话存储键名 */
+const UNDO_KEY = 'tabOverflowUndo';
+
+/** 恢复、聚合等批量操作结束后继续暂停检查的时间（毫秒），等待延迟到达的 onCreated 事件 */
+const SUSPEND_GRACE_MS = 1000;
+
+/**
+ * 一次溢出归档的撤销记录
+ */
+export interface OverflowUndoRecord {
+  /** 归档到的分组ID */
+  groupId: string;
+  /** 标签页原所在窗口ID */
+  windowId: number;
+  /** 被归档的标签页ID（与分组中 TabData.id 对应） */
+  tabIds: number[];
+}
+
+/** 正在进行的批量操作数量 */
+let suspendCount = 0;
+
+/** 批量操作结束后的暂停截止时间 */
+let suspendedUntil = 0;
+
+/**
+ * 在执行批量打开标签页的操作期间暂停上限检查
+ * 避免恢复分组时刚打开的标签页被立即归档
+ * @param task 要执行的操作
+ * @returns 操作的返回值
+ */
+export async function withTabCapSuspended<T>(task: () => Promise<T>): Promise<T> {
+  suspendCount++;
+  try {
+    return await task();
+  } finally {
+    suspendCount--;
+    suspendedUntil = Date.now() + SUSPEND_GRACE_MS;
+  }
+}
+
+/**
+ * 上限检查当前是否被暂停
+ */
+export function isTabCapSuspended(): boolean {
+  return suspendCount > 0 || Date.now() < suspendedUntil;
+}
+
+/**
+ * 找出窗口中超出上限的标签页
+ * 按最近访问时间从旧到新选取，跳过活动、固定、正在播放声音、匹配排除规则以及刚打开的标签页
+ * @param windowId 窗口ID
+ * @param settings 用户设置
+ * @param excludeRules 排除规则
+ * @returns 需要归档的标签页，未超出上限时返回空数组
+ */
+export async function findOverflowTabs(
+  windowId: number,
+  settings: UserSettings,
+  excludeRules: ExcludeRule[]
+): Promise<ChromeTab[]> {
+  if (!settings.tabCapEnabled || settings.maxTabsPerWindow <= 0) {
+    return [];
+  }
+
+  const tabs = (await chrome.tabs.query({ windowId })) as ChromeTab[];
+  const overflow = tabs.length - settings.maxTabsPerWindow;
+  if (overflow <= 0) {
+    return [];
+  }
+
+  // 刚打开的标签页（ID最大）不参与归档
+  const newestTabId = Math.max(...tabs.map((tab) => tab.id));
+
+  return TabManager.filterSaveableTabs(tabs, excludeRules)
+    .filter((tab) => !tab.active && !tab.audible && tab.id !== newestTabId)
+    .sort((a, b) => (a.lastAccessed || 0) - (b.lastAccessed || 0) || a.index - b.index)
+    .slice(0, overflow);
+}
+
+/**
+ * 读取全部撤销记录
+ */
+async function getUndoRecords(): Promise<Record<string, OverflowUndoRecord>> {
+  const result = await chrome.storage.session.get(UNDO_KEY);
+  return (result[UNDO_KEY] as Record<string, OverflowUndoRecord>) || {};
+}
+
+/**
+ * 保存撤销记录并显示带撤销按钮的通知
+ * @param record 撤销记录
+ * @param groupName 归档到的分组名称
+ */
+export async function notifyOverflowArchived(record: OverflowUndoRecord, groupName: string): Promise<void> {
+  try {
+    const notificationId = `${OVERFLOW_NOTIFICATION_PREFIX}${Date.now()}`;
+    const records = await getUndoRecords();
+    records[notificationId] = record;
+    await chrome.storage.session.set({ [UNDO_KEY]: records });
+
+    await chrome.notifications.create(notificationId, {
+      type: 'basic',
+      iconUrl: chrome.runtime.getURL('icons/icon128.png'),
+      title: '标签页已自动归档',
+      message: `窗口标签页超出上限，已将 ${record.tabIds.length} 个最久未使用的标签页移入“${groupName}”`,
+      buttons: [{ title: '撤销' }]
+    });
+  } catch (error) {
+    console.error('Failed to show overflow notification:', error);
+  }
+}
+
+/**
+ * 取出并删除一条撤销记录
+ * @param notificationId 通知ID
+ * @returns 撤销记录，不存在时返回 null
+ */
+export async function takeUndoRecord(notificationId: string): Promise<OverflowUndoRecord | null> {
+  const records = await getUndoRecords();
+  const record = records[notificationId] || null;
+  delete records[notificationId];
+  await chrome.storage.session.set({ [UNDO_KEY]: records });
+  return record;
+}
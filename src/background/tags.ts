@@ -0,0 +1,115 @@
+/**
+ * 标签
+ * 修改分组和标签页的标签，按标签恢复标签页
+ */
+
+import type { RestoreOptions, TabData, TabGroup } from '../types/background';
+import { StorageManager, updateDataMetadata } from '../utils/storage';
+import { TabManager } from '../utils/tabs';
+import { getTaggedTabs, normalizeTag, normalizeTags } from '../utils/tags';
+import { recordTabsOpened, restoreTabs } from './restore';
+import { triggerSyncIfEnabled } from './syncIntegration';
+
+/**
+ * 修改分组的标签
+ * @param groupId 分组ID
+ * @param tags 新的标签列表（保存前规范化）
+ */
+export async function updateGroupTags(groupId: string, tags: string[]): Promise<void> {
+  try {
+    const data = await StorageManager.getData();
+    const group = data.groups.find((g: TabGroup) => g.id === groupId);
+
+    if (!group) {
+      throw new Error('分组不存在');
+    }
+
+    if (group.locked) {
+      throw new Error('无法修改已锁定的分组');
+    }
+
+    group.tags = normalizeTags(tags);
+    group.tagsUpdatedAt = new Date().toISOString();
+
+    await StorageManager.setData(updateDataMetadata(data));
+
+    console.log(`Updated group tags: ${groupId} -> ${group.tags.join(', ')}`);
+
+    // 触发同步（如果启用）
+    await triggerSyncIfEnabled();
+  } catch (error) {
+    console.error('Error updating group tags:', error);
+    throw error;
+  }
+}
+
+/**
+ * 修改分组中单个标签页的标签
+ * @param groupId 分组ID
+ * @param tabUid 标签页ID
+ * @param tags 新的标签列表（保存前规范化）
+ */
+export async function updateTabTags(groupId: string, tabUid: string, tags: string[]): Promise<void> {
+  try {
+    const data = await StorageManager.getData();
+    const group = data.groups.find((g: TabGroup) => g.id === groupId);
+    const tab = group?.tabs.find((t: TabData) => t.uid === tabUid);
+
+    if (!group || !tab) {
+      throw new Error('标签页不存在');
+    }
+
+    if (group.locked) {
+      throw new Error('无法修改已锁定的分组');
+    }
+
+    tab.tags = normalizeTags(tags);
+    tab.tagsUpdatedAt = new Date().toISOString();
+
+    await StorageManager.setData(updateDataMetadata(data));
+
+    console.log(`Updated tab tags: ${tab.url} -> ${tab.tags.join(', ')}`);
+
+    // 触发同步（如果启用）
+    await triggerSyncIfEnabled();
+  } catch (error) {
+    console.error('Error updating tab tags:', error);
+    throw error;
+  }
+}
+
+/**
+ * 恢复带有指定标签的所有标签页
+ * 分组带有该标签时恢复其全部标签页，所有匹配的标签页按分组顺序在同一个恢复作业中打开
+ * @param tag 标签
+ * @param options 恢复选项（未指定 lazy、dedupe 时使用用户设置）
+ * @returns 恢复作业ID
+ */
+export async function restoreByTag(tag: string, options: RestoreOptions = {}): Promise<string> {
+  try {
+    const normalizedTag = normalizeTag(tag);
+    const data = await StorageManager.getData();
+    const matches = data.groups
+      .map((group: TabGroup) => ({ group, tabs: getTaggedTabs(group, normalizedTag) }))
+      .filter((match) => match.tabs.length > 0);
+
+    if (matches.length === 0) {
+      throw new Error(`没有带标签 #${normalizedTag} 的标签页`);
+    }
+
+    const tabs = TabManager.flattenGroupTabs(matches.map((match) => match.tabs));
+    const jobId = await restoreTabs(tabs, options, `标签 #${normalizedTag}`);
+
+    // 一次记录所有分组，只保存一次数据
+    await recordTabsOpened(
+      matches.map((match) => match.group.id),
+      tabs.map((tab) => tab.uid)
+    );
+
+    console.log(`Restoring ${tabs.length} tabs tagged #${normalizedTag}`);
+    return jobId;
+  } catch (error) {
+    console.error('Error restoring tabs by tag:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * 延迟加载占位页入口
+ * 显示原标签页的标题和图标，标签页可见时跳转到原网址
+ */
+
+import { parseLazyTabUrl } from '../utils/lazyTab';
+
+const info = parseLazyTabUrl(window.location.href);
+
+/**
+ * 加载原网址（替换历史记录，后退时不会回到占位页）
+ */
+function loadOriginalUrl(): void {
+  if (info) {
+    window.location.replace(info.url);
+  }
+}
+
+if (info) {
+  document.title = info.title;
+
+  if (info.favIconUrl) {
+    const icon = document.createElement('link');
+    icon.rel = 'icon';
+    icon.href = info.favIconUrl;
+    document.head.appendChild(icon);
+  }
+
+  const titleElement = document.getElementById('title');
+  const urlElement = document.getElementById('url');
+  if (titleElement) {
+    titleElement.textContent = info.title;
+  }
+  if (urlElement) {
+    urlElement.textContent = info.url;
+  }
+
+  if (document.visibilityState === 'visible') {
+    loadOriginalUrl();
+  } else {
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') {
+        loadOriginalUrl();
+      }
+    });
+  }
+
+  document.addEventListener('click', loadOriginalUrl);
+}
@@ -1,62 +1,54 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
+import type {
+  UserSettings,
+  ExcludeRule,
+  ExcludeRuleType,
+  RestoreConsumePolicy,
+  RestoreDedupeMode
+} from '../types/background';
+import { DEFAULT_USER_SETTINGS, USER_SETTINGS_KEY } from '../utils/storage';
+import { RESTORE_CONSUME_POLICY_LABELS, RESTORE_DEDUPE_MODE_LABELS } from '../utils/restorePolicy';
+import {
+  EXCLUDE_RULE_TYPE_LABELS,
+  createExcludeRule,
+  getExcludeRules,
+  matchesExcludeRule,
+  validateExcludeRule
+} from '../utils/excludeRules';
 
-// 类型定义
-interface Settings {
-  defaultGroupName: string;
-  theme: 'light' | 'dark' | 'system';
-  language: 'en' | 'zh-CN';
-  aggregateInNewTab: boolean;
-  restoreInNewWindow: boolean;
-  showNotifications: boolean;
-  shortcut: string;
-  autoLockGroups: boolean;
-  maxGroupsToKeep: number;
-  excludePinnedTabs: boolean;
-  confirmBeforeDelete: boolean;
-  autoBackup: boolean;
-  backupInterval: number;
-}
-
-const initialSettings: Settings = {
-  defaultGroupName: 'yyyy-MM-dd HH:mm:ss',
-  theme: 'system',
-  language: 'zh-CN',
-  aggregateInNewTab: true,
-  restoreInNewWindow: false,
-  showNotifications: true,
-  shortcut: 'Alt+Shift+S',
-  autoLockGroups: false,
-  maxGroupsToKeep: 50,
-  excludePinnedTabs: true,
-  confirmBeforeDelete: true,
-  autoBackup: false,
-  backupInterval: 7
+// 各类排除规则的示例模式
+const EXCLUDE_RULE_PLACEHOLDERS: Record<ExcludeRuleType, string> = {
+  prefix: 'chrome://',
+  host: 'localhost',
+  hostWildcard: '*.corp.internal',
+  glob: 'http://localhost:*/*',
+  regex: '^https?://127\\.0\\.0\\.1(:\\d+)?/'
 };
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState('general');
-  const [settings, setSettings] = useState<Settings>(initialSettings);
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_USER_SETTINGS);
   const [isSaving, setIsSaving] = useState(false);
 
   useEffect(() => {
     const hash = window.location.hash.substring(1);
-    if (['general', 'behavior', 'advanced', 'data', 'about'].includes(hash)) {
+    if (['general', 'behavior', 'exclude', 'advanced', 'data', 'about'].includes(hash)) {
       setActiveTab(hash);
     }
 
-    chrome.storage.local.get('settings', (result) => {
-      if (result.settings) {
-        setSettings({ ...initialSettings, ...result.settings });
+    chrome.storage.local.get(USER_SETTINGS_KEY, (result) => {
+      if (result[USER_SETTINGS_KEY]) {
+        setSettings({ ...DEFAULT_USER_SETTINGS, ...result[USER_SETTINGS_KEY] });
       }
     });
   }, []);
 
   const handleSettingChange = useCallback(
-    (key: keyof Settings, value: any) => {
+    (key: keyof UserSettings, value: any) => {
       setIsSaving(true);
       const newSettings = { ...settings, [key]: value };
       setSettings(newSettings);
-      chrome.storage.local.set({ settings: newSettings }, () => {
+      chrome.storage.local.set({ [USER_SETTINGS_KEY]: newSettings }, () => {
         setTimeout(() => setIsSaving(false), 500); // Simulate save delay
       });
     },
@@ -74,6 +66,8 @@ const App: React.FC = () => {
         return <GeneralSettings settings={settings} onSettingChange={handleSettingChange} />;
       case 'behavior':
         return <BehaviorSettings settings={settings} onSettingChange={handleSettingChange} />;
+      case 'exclude':
+        return <ExcludeRulesSettings />;
       case 'advanced':
         return <AdvancedSettings settings={settings} onSettingChange={handleSettingChange} />;
       case 'data':
@@ -109,6 +103,9 @@ const App: React.FC = () => {
               <TabButton id="behavior" activeTab={activeTab} onClick={handleTabClick}>
                 行为设置
               </TabButton>
+              <TabButton id="exclude" activeTab={activeTab} onClick={handleTabClick}>
+                排除规则
+              </TabButton>
               <TabButton id="advanced" activeTab={activeTab} onClick={handleTabClick}>
                 高级设置
               </TabButton>
@@ -157,9 +154,44 @@ const SettingsCard: React.FC<{
   </div>
 );
 
+const KeyboardShortcuts: React.FC = () => {
+  const [commands, setCommands] = useState<chrome.commands.Command[]>([]);
+
+  useEffect(() => {
+    chrome.commands.getAll((result) => setCommands(result));
+  }, []);
+
+  // chrome:// 页面无法通过链接打开，需要通过 tabs API 打开
+  const openShortcutsPage = () => {
+    chrome.tabs.create({ url: 'chrome://extensions/shortcuts' });
+  };
+
+  return (
+    <>
+      <div className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+        {commands.map((command) => (
+          <div key={command.name} className="flex items-center justify-between px-4 py-2">
+            <span className="text-sm text-gray-700">{command.description}</span>
+            {command.shortcut ? (
+              <kbd className="px-2 py-1 text-xs font-mono text-gray-700 bg-gray-100 border border-gray-300 rounded">
+                {command.shortcut}
+              </kbd>
+            ) : (
+              <span className="text-xs text-gray-400">未设置</span>
+            )}
+          </div>
+        ))}
+      </div>
+      <button type="button" className="text-sm text-blue-600 hover:underline" onClick={openShortcutsPage}>
+        修改快捷键
+      </button>
+    </>
+  );
+};
+
 const GeneralSettings: React.FC<{
-  settings: Settings;
-  onSettingChange: (key: keyof Settings, value: any) => void;
+  settings: UserSettings;
+  onSettingChange: (key: keyof UserSettings, value: any) => void;
 }> = ({ settings, onSettingChange }) => {
   return (
     <div>
@@ -182,21 +214,16 @@ const GeneralSettings: React.FC<{
           <option value="dark">深色模式</option>
         </select>
       </SettingsCard>
-      <SettingsCard title="快捷键" description="设置聚合当前窗口标签的快捷键。">
-        <input
-          type="text"
-          className="input-field"
-          value={settings.shortcut}
-          onChange={(e) => onSettingChange('shortcut', e.target.value)}
-        />
+      <SettingsCard title="快捷键" description="快捷键由浏览器统一管理，可在扩展快捷键页面中修改。">
+        <KeyboardShortcuts />
       </SettingsCard>
     </div>
   );
 };
 
 const BehaviorSettings: React.FC<{
-  settings: Settings;
-  onSettingChange: (key: keyof Settings, value: any) => void;
+  settings: UserSettings;
+  onSettingChange: (key: keyof UserSettings, value: any) => void;
 }> = ({ settings, onSettingChange }) => (
   <div>
     <SettingsCard title="聚合行为">
@@ -210,6 +237,92 @@ const BehaviorSettings: React.FC<{
         <span className="ml-2 text-sm text-gray-700">聚合后在新标签页打开管理页面</span>
       </label>
     </SettingsCard>
+    <SettingsCard title="按域名拆分" description="按域名聚合时，将当前窗口的标签页拆分为多个分组。">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          checked={settings.domainSplitBySiteFamily}
+          onChange={(e) => onSettingChange('domainSplitBySiteFamily', e.target.checked)}
+        />
+        <span className="ml-2 text-sm text-gray-700">合并同一站点的子域名（如 gist.github.com 归入 github.com）</span>
+      </label>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">每个分组最少标签页数量</label>
+        <input
+          type="number"
+          min="1"
+          max="50"
+          className="input-field w-32"
+          value={settings.domainSplitMinGroupSize}
+          onChange={(e) => onSettingChange('domainSplitMinGroupSize', parseInt(e.target.value, 10) || 1)}
+        />
+        <p className="text-xs text-gray-500 mt-1">标签页数量不足的域名将归入“其他”分组</p>
+      </div>
+    </SettingsCard>
+    <SettingsCard title="自动归档闲置标签页" description="定期将长时间未访问的标签页移入“闲置标签页”分组并关闭，以释放内存。">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          checked={settings.idleArchiveEnabled}
+          onChange={(e) => onSettingChange('idleArchiveEnabled', e.target.checked)}
+        />
+        <span className="ml-2 text-sm text-gray-700">启用自动归档</span>
+      </label>
+      {settings.idleArchiveEnabled && (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">闲置时间（分钟）</label>
+            <input
+              type="number"
+              min="5"
+              max="10080"
+              className="input-field w-32"
+              value={settings.idleArchiveMinutes}
+              onChange={(e) => onSettingChange('idleArchiveMinutes', Math.max(5, parseInt(e.target.value, 10) || 5))}
+            />
+            <p className="text-xs text-gray-500 mt-1">固定、正在播放声音以及匹配排除规则的标签页不会被归档</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">不归档的域名</label>
+            <textarea
+              rows={4}
+              className="input-field"
+              value={settings.idleArchiveAllowlist.join('\n')}
+              placeholder={'mail.google.com\ncalendar.google.com'}
+              onChange={(e) => onSettingChange('idleArchiveAllowlist', e.target.value.split('\n'))}
+            />
+            <p className="text-xs text-gray-500 mt-1">每行一个域名，同时包含其子域名</p>
+          </div>
+        </>
+      )}
+    </SettingsCard>
+    <SettingsCard title="窗口标签页上限" description="新标签页使窗口超出上限时，将最久未使用的标签页移入该窗口的溢出分组。">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          checked={settings.tabCapEnabled}
+          onChange={(e) => onSettingChange('tabCapEnabled', e.target.checked)}
+        />
+        <span className="ml-2 text-sm text-gray-700">限制每个窗口的标签页数量</span>
+      </label>
+      {settings.tabCapEnabled && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">每个窗口最多标签页数</label>
+          <input
+            type="number"
+            min="2"
+            max="500"
+            className="input-field w-32"
+            value={settings.maxTabsPerWindow}
+            onChange={(e) => onSettingChange('maxTabsPerWindow', Math.max(2, parseInt(e.target.value, 10) || 2))}
+          />
+          <p className="text-xs text-gray-500 mt-1">开启“显示通知”时，可在通知中撤销本次归档</p>
+        </div>
+      )}
+    </SettingsCard>
     <SettingsCard title="恢复行为">
       <label className="flex items-center">
         <input
@@ -220,6 +333,43 @@ const BehaviorSettings: React.FC<{
         />
         <span className="ml-2 text-sm text-gray-700">在新窗口中恢复标签页</span>
       </label>
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          checked={settings.lazyRestore}
+          onChange={(e) => onSettingChange('lazyRestore', e.target.checked)}
+        />
+        <span className="ml-2 text-sm text-gray-700">延迟加载：只立即加载活动标签页，其余标签页切换到时再加载</span>
+      </label>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">恢复后的标签页和分组</label>
+        <select
+          className="input-field w-80"
+          value={settings.restoreConsumePolicy}
+          onChange={(e) => onSettingChange('restoreConsumePolicy', e.target.value as RestoreConsumePolicy)}
+        >
+          {Object.entries(RESTORE_CONSUME_POLICY_LABELS).map(([policy, label]) => (
+            <option key={policy} value={policy}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">已在其他窗口打开的标签页</label>
+        <select
+          className="input-field w-80"
+          value={settings.restoreDedupeMode}
+          onChange={(e) => onSettingChange('restoreDedupeMode', e.target.value as RestoreDedupeMode)}
+        >
+          {Object.entries(RESTORE_DEDUPE_MODE_LABELS).map(([mode, label]) => (
+            <option key={mode} value={mode}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
     </SettingsCard>
     <SettingsCard title="通知设置">
       <label className="flex items-center">
@@ -235,9 +385,124 @@ const BehaviorSettings: React.FC<{
   </div>
 );
 
+const ExcludeRulesSettings: React.FC = () => {
+  const [rules, setRules] = useState<ExcludeRule[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [testUrl, setTestUrl] = useState('');
+
+  useEffect(() => {
+    chrome.runtime.sendMessage({ action: 'getData' }).then((response: any) => {
+      if (response.success) {
+        setRules(getExcludeRules(response.data.settings));
+      }
+    });
+  }, []);
+
+  const updateRule = (id: string, changes: Partial<ExcludeRule>) => {
+    setRules(rules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)));
+    setIsDirty(true);
+  };
+
+  const addRule = () => {
+    setRules([...rules, createExcludeRule('prefix', '')]);
+    setIsDirty(true);
+  };
+
+  const removeRule = (id: string) => {
+    setRules(rules.filter((rule) => rule.id !== id));
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    const validationError = rules.map(validateExcludeRule).find(Boolean);
+    if (validationError) {
+      alert(validationError);
+      return;
+    }
+    chrome.runtime.sendMessage({ action: 'updateExcludeRules', excludeRules: rules }).then((response: any) => {
+      if (response.success) {
+        setIsDirty(false);
+      } else {
+        alert(`保存失败: ${response.error}`);
+      }
+    });
+  };
+
+  const matchedRules = testUrl ? rules.filter((rule) => rule.enabled && matchesExcludeRule(testUrl, rule)) : [];
+
+  return (
+    <div>
+      <SettingsCard
+        title="排除规则"
+        description="匹配任一启用规则的标签页不会被保存，同样适用于新建分组和数据导入。"
+      >
+        <div className="space-y-2">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                checked={rule.enabled}
+                onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                title="启用"
+              />
+              <select
+                className="input-field w-36"
+                value={rule.type}
+                onChange={(e) => updateRule(rule.id, { type: e.target.value as ExcludeRuleType })}
+              >
+                {Object.entries(EXCLUDE_RULE_TYPE_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                className="input-field flex-1"
+                value={rule.pattern}
+                placeholder={EXCLUDE_RULE_PLACEHOLDERS[rule.type]}
+                onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+              />
+              <button onClick={() => removeRule(rule.id)} className="text-sm text-red-600 hover:text-red-800">
+                删除
+              </button>
+            </div>
+          ))}
+          {rules.length === 0 && <p className="text-sm text-gray-500">暂无排除规则</p>}
+        </div>
+        <div className="flex space-x-2">
+          <button onClick={addRule} className="btn btn-secondary">
+            添加规则
+          </button>
+          <button onClick={handleSave} className="btn btn-primary" disabled={!isDirty}>
+            保存规则
+          </button>
+        </div>
+      </SettingsCard>
+      <SettingsCard title="测试规则" description="输入一个 URL，查看会被哪些规则排除。">
+        <input
+          type="text"
+          className="input-field"
+          value={testUrl}
+          placeholder="https://jira.corp.internal/browse/ABC-1"
+          onChange={(e) => setTestUrl(e.target.value)}
+        />
+        {testUrl && (
+          <p className={`text-sm ${matchedRules.length ? 'text-red-600' : 'text-green-600'}`}>
+            {matchedRules.length
+              ? `将被排除（匹配：${matchedRules.map((rule) => rule.pattern).join('，')}）`
+              : '不会被排除'}
+          </p>
+        )}
+      </SettingsCard>
+    </div>
+  );
+};
+
 const AdvancedSettings: React.FC<{
-  settings: Settings;
-  onSettingChange: (key: keyof Settings, value: any) => void;
+  settings: UserSettings;
+  onSettingChange: (key: keyof UserSettings, value: any) => void;
 }> = ({ settings, onSettingChange }) => (
   <div>
     <SettingsCard title="分组管理" description="高级分组管理选项。">
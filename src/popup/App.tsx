@@ -1,13 +1,45 @@
-import React, { useState, useEffect } from 'react';
-import { Archive } from 'lucide-react';
-import type { TabGroup } from '../types/background';
+import React, { useState, useEffect, useRef } from 'react';
+import { Archive, Layers, FolderInput, X } from 'lucide-react';
+import type { TabGroup, MessageAction, RestoreJobProgress } from '../types/background';
+import { connectRestoreProgress } from '../utils/restoreProgress';
+import type { RestoreProgressConnection } from '../utils/restoreProgress';
+import { StorageManager } from '../utils/storage';
+import { shouldConsumeOnRestore } from '../utils/restorePolicy';
+import { GROUP_COLOR_HEX } from '../utils/groupAppearance';
+import { GroupAvatar } from '../tab_list/components/GroupAvatar';
 
 // 类型别名以保持兼容性
-type Group = Omit<TabGroup, 'id' | 'pinned' | 'locked'> & { id: string };
+type Group = TabGroup;
+
+// 聚合相关的消息类型
+type AggregateAction = Extract<MessageAction, `aggregate${string}`>;
+
+// 按范围聚合的选项
+const SCOPED_AGGREGATE_OPTIONS: { action: AggregateAction; label: string; title: string }[] = [
+  { action: 'aggregateHighlighted', label: '选中', title: '仅聚合选中（高亮）的标签页' },
+  { action: 'aggregateLeft', label: '左侧', title: '聚合当前标签页左侧的标签页' },
+  { action: 'aggregateRight', label: '右侧', title: '聚合当前标签页右侧的标签页' },
+  { action: 'aggregateOthers', label: '其他', title: '聚合除当前标签页外的所有标签页' },
+  { action: 'aggregateByDomain', label: '按域名', title: '按域名将当前窗口的标签页拆分为多个分组' }
+];
 
 const App: React.FC = () => {
   const [recentGroups, setRecentGroups] = useState<Group[]>([]);
+  const [appendableGroups, setAppendableGroups] = useState<TabGroup[]>([]);
+  const [targetGroupId, setTargetGroupId] = useState<string | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
   const [loading, setLoading] = useState(false);
+  const [restoreJobs, setRestoreJobs] = useState<RestoreJobProgress[]>([]);
+  const restoreConnectionRef = useRef<RestoreProgressConnection | null>(null);
+
+  useEffect(() => {
+    // 恢复在后台分批执行，弹出窗口保持打开以显示进度
+    const connection = connectRestoreProgress((jobs) => {
+      setRestoreJobs(jobs.filter((job) => job.status === 'queued' || job.status === 'running'));
+    });
+    restoreConnectionRef.current = connection;
+    return () => connection.disconnect();
+  }, []);
 
   useEffect(() => {
     const loadRecentGroups = async () => {
@@ -16,6 +48,8 @@ const App: React.FC = () => {
           action: 'getData'
         });
         if (response.success && response.data.groups.length > 0) {
+          // 锁定的分组不能追加标签页
+          setAppendableGroups(response.data.groups.filter((g: TabGroup) => !g.locked));
           return setRecentGroups(response.data.groups.slice(0, 3));
         }
         setRecentGroups([]);
@@ -27,11 +61,11 @@ const App: React.FC = () => {
     loadRecentGroups();
   }, []);
 
-  const handleAggregate = async () => {
+  const handleAggregate = async (action: AggregateAction = 'aggregateTabs') => {
     setLoading(true);
     try {
       const response = await chrome.runtime.sendMessage({
-        action: 'aggregateTabs'
+        action
       });
       if (response.success) {
         setTimeout(() => window.close(), 500);
@@ -45,6 +79,29 @@ const App: React.FC = () => {
     }
   };
 
+  const handleAppendToGroup = async () => {
+    if (targetGroupId === null) {
+      return;
+    }
+    setLoading(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'appendToGroup',
+        groupId: targetGroupId,
+        skipDuplicates
+      });
+      if (response.success) {
+        setTimeout(() => window.close(), 500);
+      } else {
+        alert(`添加失败: ${response.error}`);
+      }
+    } catch (error) {
+      alert(`添加出错: ${error}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const openTabList = () => {
     chrome.tabs.create({ url: chrome.runtime.getURL('tab_list.html') });
     window.close();
@@ -58,13 +115,23 @@ const App: React.FC = () => {
   const restoreGroup = async (group: Group) => {
     setLoading(true);
     try {
-      const response = await chrome.runtime.sendMessage({
-        action: 'restoreTabs',
-        tabs: group.tabs
-      });
-      if (response.success) {
-        setTimeout(() => window.close(), 500);
-      } else {
+      // 按"恢复后的移除策略"决定是否同时从列表中移除分组
+      const { restoreConsumePolicy } = await StorageManager.getUserSettings();
+      const consume = shouldConsumeOnRestore(group, restoreConsumePolicy);
+      const response = await chrome.runtime.sendMessage(
+        consume
+          ? { action: 'restoreAndRemove', groupId: group.id }
+          : {
+              action: 'restoreTabs',
+              groupId: group.id,
+              name: group.name,
+              tabs: group.tabs,
+              nativeGroups: group.nativeGroups
+            }
+      );
+      if (response.success && consume) {
+        setRecentGroups((groups) => groups.filter((g) => g.id !== group.id));
+      } else if (!response.success) {
         console.error('Restore failed:', response.error);
       }
     } catch (error) {
@@ -99,16 +166,100 @@ const App: React.FC = () => {
           </button>
         </div>
 
+        {restoreJobs.length > 0 && (
+          <div className="mb-4 space-y-2">
+            {restoreJobs.map((job) => (
+              <div key={job.id} className="rounded-lg border border-gray-200 bg-white p-3">
+                <div className="flex items-center justify-between">
+                  <span className="truncate text-sm font-medium text-gray-800">{job.label}</span>
+                  <button
+                    onClick={() => restoreConnectionRef.current?.cancel(job.id)}
+                    className="p-1 text-gray-500 hover:text-gray-700"
+                    title="取消恢复"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-gray-100">
+                  <div
+                    className="h-full bg-blue-600 transition-all"
+                    style={{ width: `${job.total > 0 ? (job.restored / job.total) * 100 : 0}%` }}
+                  />
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  正在恢复 {job.restored} / {job.total} 个标签页
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="space-y-3">
           <button
-            onClick={handleAggregate}
+            onClick={() => handleAggregate()}
             className="flex w-full items-center justify-center space-x-2 rounded-lg bg-blue-600 px-4 py-3 font-medium text-white transition-colors duration-200 hover:bg-blue-700"
           >
             <Archive className="h-5 w-5" />
             <span>聚合当前窗口标签</span>
           </button>
+          <button
+            onClick={() => handleAggregate('aggregateAllWindows')}
+            className="flex w-full items-center justify-center space-x-2 rounded-lg border border-blue-600 bg-white px-4 py-2 text-sm font-medium text-blue-600 transition-colors duration-200 hover:bg-blue-50"
+          >
+            <Layers className="h-4 w-4" />
+            <span>聚合所有窗口标签</span>
+          </button>
+          <div className="grid grid-cols-5 gap-2">
+            {SCOPED_AGGREGATE_OPTIONS.map((option) => (
+              <button
+                key={option.action}
+                onClick={() => handleAggregate(option.action)}
+                className="rounded border border-gray-300 bg-white px-2 py-1 text-xs text-gray-700 hover:bg-gray-100"
+                title={option.title}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
         </div>
 
+        {appendableGroups.length > 0 && (
+          <div className="mt-4 rounded-lg border border-gray-200 bg-white p-3">
+            <h2 className="mb-2 text-sm font-medium text-gray-700">发送到已有分组</h2>
+            <div className="flex space-x-2">
+              <select
+                value={targetGroupId ?? ''}
+                onChange={(e) => setTargetGroupId(e.target.value || null)}
+                className="min-w-0 flex-1 rounded border border-gray-300 px-2 py-1 text-sm"
+              >
+                <option value="">选择分组...</option>
+                {appendableGroups.map((group) => (
+                  <option key={group.id} value={group.id}>
+                    {group.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleAppendToGroup}
+                disabled={targetGroupId === null}
+                className="flex items-center rounded bg-blue-600 px-2 py-1 text-white hover:bg-blue-700 disabled:opacity-50"
+                title="将当前窗口的标签页添加到所选分组"
+              >
+                <FolderInput className="h-4 w-4" />
+              </button>
+            </div>
+            <label className="mt-2 flex items-center text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={skipDuplicates}
+                onChange={(e) => setSkipDuplicates(e.target.checked)}
+                className="mr-1 h-3 w-3"
+              />
+              跳过分组中已有的网址
+            </label>
+          </div>
+        )}
+
         <div className="mt-6">
           <h2 className="mb-3 text-sm font-medium text-gray-700">最近的分组</h2>
           <div className="space-y-2">
@@ -118,9 +269,11 @@ const App: React.FC = () => {
                   key={group.id}
                   onClick={() => openGroupDetail(group.id)}
                   className="group-item fade-in cursor-pointer rounded-lg border border-gray-200 bg-white p-3 hover:shadow-md"
+                  style={group.color ? { borderLeft: `4px solid ${GROUP_COLOR_HEX[group.color]}` } : undefined}
                 >
                   <div className="flex items-center justify-between">
-                    <div className="min-w-0 flex-1">
+                    <GroupAvatar group={group} />
+                    <div className="ml-2 min-w-0 flex-1">
                       <h3 className="truncate text-sm font-medium text-gray-800">{group.name}</h3>
                       <p className="mt-1 text-xs text-gray-500">
                         {group.tabs.length} 个标签页 •{' '}
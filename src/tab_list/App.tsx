@@ -1,14 +1,68 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react'
-import { Header, Toolbar, GroupList, GroupDetailModal, NewGroupModal, SyncSettings } from './components'
-import type { Tab, Group, Stats, SortType, ViewType } from './types'
+import {
+  Header,
+  Toolbar,
+  GroupList,
+  GroupDetailModal,
+  NewGroupModal,
+  SyncSettings,
+  SessionList,
+  RestoreProgress,
+  TagSidebar,
+  FolderTree,
+  FolderActions
+} from './components'
+import type { Tab, Group, Stats, SortType, ViewType, PageType, TabFilterType } from './types'
+import type { Folder } from '../types/background'
 import { syncManager } from '../utils/sync/SyncManager'
+import { matchesGroup } from '../utils/search'
+import {
+  STALE_TAB_DAYS,
+  getLastOpenedTime,
+  getTotalOpenCount,
+  isNeverReopened,
+  isSavedBefore
+} from '../utils/tabActivity'
+import { countTags, getTaggedTabs } from '../utils/tags'
+import { getFolderGroups } from '../utils/folders'
+
+// 页面切换选项
+const PAGE_OPTIONS: { value: PageType; label: string }[] = [
+  { value: 'groups', label: '分组' },
+  { value: 'sessions', label: '会话快照' }
+]
+
+// 标签页筛选条件
+const TAB_FILTERS: Record<Exclude<TabFilterType, 'all'>, (tab: Tab) => boolean> = {
+  neverReopened: isNeverReopened,
+  stale: (tab) => isSavedBefore(tab, STALE_TAB_DAYS)
+}
+
+/**
+ * 只保留分组中符合筛选条件的标签页
+ * 筛选后的分组沿用原标签页对象，以便找回标签页在原分组中的位置
+ */
+const applyTabFilter = (group: Group, filter: TabFilterType): Group =>
+  filter === 'all' ? group : { ...group, tabs: group.tabs.filter(TAB_FILTERS[filter]) }
+
+/**
+ * 只保留分组中带有指定标签的标签页（分组带有该标签时保留全部）
+ */
+const applyTagFilter = (group: Group, tag: string | null): Group =>
+  tag === null ? group : { ...group, tabs: getTaggedTabs(group, tag) }
 
 const App: React.FC = () => {
   const [groups, setGroups] = useState<Group[]>([])
+  const [folders, setFolders] = useState<Folder[]>([])
+  const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
+  const [page, setPage] = useState<PageType>('groups')
   const [view, setView] = useState<ViewType>('list')
   const [sort, setSort] = useState<SortType>('newest')
-  const [searchQuery, setSearchQuery] = useState('')
+  const [filter, setFilter] = useState<TabFilterType>('all')
+  const [selectedTag, setSelectedTag] = useState<string | null>(null)
+  // 地址栏关键字搜索会通过 ?q= 传入初始搜索词
+  const [searchQuery, setSearchQuery] = useState(() => new URLSearchParams(window.location.search).get('q') || '')
   const [stats, setStats] = useState<Stats>({ groupCount: 0, tabCount: 0 })
   const [isGroupDetailModalOpen, setGroupDetailModalOpen] = useState(false)
   const [isNewGroupModalOpen, setNewGroupModalOpen] = useState(false)
@@ -21,6 +75,7 @@ const App: React.FC = () => {
       const response = await chrome.runtime.sendMessage({ action: 'getData' })
       if (response.success) {
         setGroups(response.data.groups)
+        setFolders(response.data.folders || [])
         setStats({
           groupCount: response.data.groups.length,
           tabCount: response.data.groups.reduce((acc: number, g: any) => acc + g.tabs.length, 0)
@@ -52,16 +107,19 @@ const App: React.FC = () => {
     }
   }, [loadData])
 
+  // 选中的文件夹被删除后回到全部分组
+  const selectedFolder = folders.find((folder) => folder.id === selectedFolderId) || null
+
+  const folderGroups = useMemo(
+    () => (selectedFolder ? getFolderGroups(groups, folders, selectedFolder.id) : groups),
+    [groups, folders, selectedFolder]
+  )
+
   const filteredAndSortedGroups = useMemo(() => {
-    return groups
-      .filter((group) => {
-        const lowerCaseQuery = searchQuery.toLowerCase()
-        const nameMatch = group.name.toLowerCase().includes(lowerCaseQuery)
-        const tabMatch = group.tabs.some(
-          (tab) => tab.title.toLowerCase().includes(lowerCaseQuery) || tab.url.toLowerCase().includes(lowerCaseQuery)
-        )
-        return nameMatch || tabMatch
-      })
+    return folderGroups
+      .filter((group) => matchesGroup(group, searchQuery))
+      .map((group) => applyTagFilter(applyTabFilter(group, filter), selectedTag))
+      .filter((group) => (filter === 'all' && selectedTag === null) || group.tabs.length > 0)
       .sort((a, b) => {
         switch (sort) {
           case 'oldest':
@@ -70,15 +128,22 @@ const App: React.FC = () => {
             return a.name.localeCompare(b.name)
           case 'tabs':
             return b.tabs.length - a.tabs.length
+          case 'lastOpened':
+            return getLastOpenedTime(b.tabs) - getLastOpenedTime(a.tabs)
+          case 'mostOpened':
+            return getTotalOpenCount(b.tabs) - getTotalOpenCount(a.tabs)
           case 'newest':
           default:
             return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
         }
       })
-  }, [groups, searchQuery, sort])
+  }, [folderGroups, searchQuery, filter, selectedTag, sort])
+
+  const tagCounts = useMemo(() => countTags(groups), [groups])
 
   const openGroupDetail = (group: Group) => {
-    setSelectedGroup(group)
+    // 列表中的分组可能已按筛选条件去掉部分标签页，详情中显示完整的分组
+    setSelectedGroup(groups.find((g) => g.id === group.id) || group)
     setGroupDetailModalOpen(true)
   }
 
@@ -96,38 +161,170 @@ const App: React.FC = () => {
     }
   }, [loadData, selectedGroup])
 
+  const handleRestoreTab = async (group: Group, tabIndex: number) => {
+    // 筛选后的分组只包含部分标签页，按标签页ID恢复，不受分组内容变化影响
+    const tabUid = group.tabs[tabIndex]?.uid
+    if (!tabUid) {
+      return
+    }
+    const response = await chrome.runtime.sendMessage({ action: 'restoreTab', groupId: group.id, tabUid })
+    if (!response.success) {
+      alert(`恢复失败: ${response.error}`)
+      return
+    }
+    // 刷新以显示按移除策略移除的结果和打开记录
+    loadData()
+  }
+
+  const handleRestoreByTag = async (tag: string) => {
+    const response = await chrome.runtime.sendMessage({ action: 'restoreByTag', tag })
+    if (!response.success) {
+      alert(`恢复失败: ${response.error}`)
+      return
+    }
+    // 刷新以显示打开记录
+    loadData()
+  }
+
+  const handleCreateFolder = async () => {
+    const name = prompt('文件夹名称')
+    if (!name?.trim()) {
+      return
+    }
+    const response = await chrome.runtime.sendMessage({ action: 'createFolder', name })
+    if (!response.success) {
+      alert(`创建失败: ${response.error}`)
+      return
+    }
+    loadData()
+  }
+
+  const handleMoveGroup = async (groupId: string, folderId?: string) => {
+    const response = await chrome.runtime.sendMessage({ action: 'moveGroup', groupId, folderId })
+    if (!response.success) {
+      alert(`移动失败: ${response.error}`)
+      return
+    }
+    loadData()
+  }
+
+  const handleMoveFolder = async (folderId: string, parentId?: string) => {
+    const response = await chrome.runtime.sendMessage({ action: 'moveFolder', folderId, parentId })
+    if (!response.success) {
+      alert(`移动失败: ${response.error}`)
+      return
+    }
+    loadData()
+  }
+
   const handleNewGroup = async (name: string, tabs: Tab[]) => {
     await chrome.runtime.sendMessage({ action: 'createGroup', name, tabs })
     setNewGroupModalOpen(false)
     loadData()
   }
 
+  const handleAppendToGroup = async (groupId: Group['id'], tabs: Tab[], skipDuplicates: boolean) => {
+    const response = await chrome.runtime.sendMessage({ action: 'appendToGroup', groupId, tabs, skipDuplicates })
+    if (!response.success) {
+      alert(`添加失败: ${response.error}`)
+      return
+    }
+    setNewGroupModalOpen(false)
+    loadData()
+  }
+
   const openSettings = () => chrome.runtime.openOptionsPage()
 
   return (
     <div className="min-h-screen bg-gray-50">
       <Header 
+        searchQuery={searchQuery}
         onSearch={setSearchQuery} 
         onNewGroup={() => setNewGroupModalOpen(true)} 
         onOpenSettings={openSettings}
         onOpenSyncSettings={() => setSyncSettingsOpen(true)}
       />
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <Toolbar stats={stats} sort={sort} onSortChange={setSort} view={view} onViewChange={setView} />
-        {loading ? (
-          <div className="text-center py-8">
-            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
-            <p className="mt-2 text-gray-600">加载中...</p>
-          </div>
+        <div className="flex space-x-6 border-b border-gray-200 mb-6">
+          {PAGE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setPage(option.value)}
+              className={`pb-2 text-sm font-medium border-b-2 -mb-px ${
+                page === option.value
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {page === 'sessions' ? (
+          <SessionList onGroupsChanged={loadData} />
         ) : (
-          <GroupList groups={filteredAndSortedGroups} view={view} onGroupClick={openGroupDetail} />
+          <>
+            <Toolbar
+              stats={stats}
+              sort={sort}
+              onSortChange={setSort}
+              filter={filter}
+              onFilterChange={setFilter}
+              view={view}
+              onViewChange={setView}
+            />
+            {loading ? (
+              <div className="text-center py-8">
+                <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+                <p className="mt-2 text-gray-600">加载中...</p>
+              </div>
+            ) : (
+              <div className="flex items-start space-x-6">
+                <div className="w-56 flex-shrink-0 space-y-4">
+                  <FolderTree
+                    folders={folders}
+                    groups={groups}
+                    selectedFolderId={selectedFolder?.id ?? null}
+                    onSelect={setSelectedFolderId}
+                    onCreateFolder={handleCreateFolder}
+                    onMoveGroup={handleMoveGroup}
+                    onMoveFolder={handleMoveFolder}
+                  />
+                  <TagSidebar
+                    tags={tagCounts}
+                    selectedTag={selectedTag}
+                    onSelect={setSelectedTag}
+                    onRestore={handleRestoreByTag}
+                  />
+                </div>
+                <div className="flex-1 min-w-0">
+                  {selectedFolder && <FolderActions folder={selectedFolder} groups={folderGroups} onUpdate={loadData} />}
+                  <GroupList
+                    groups={filteredAndSortedGroups}
+                    view={view}
+                    onGroupClick={openGroupDetail}
+                    onTabRestore={handleRestoreTab}
+                    onTagClick={setSelectedTag}
+                  />
+                </div>
+              </div>
+            )}
+          </>
         )}
       </main>
       {isGroupDetailModalOpen && selectedGroup && (
         <GroupDetailModal group={selectedGroup} onClose={() => setGroupDetailModalOpen(false)} onUpdate={handleGroupUpdate} />
       )}
-      {isNewGroupModalOpen && <NewGroupModal onClose={() => setNewGroupModalOpen(false)} onSave={handleNewGroup} />}
+      {isNewGroupModalOpen && (
+        <NewGroupModal
+          groups={groups}
+          onClose={() => setNewGroupModalOpen(false)}
+          onSave={handleNewGroup}
+          onAppend={handleAppendToGroup}
+        />
+      )}
       {isSyncSettingsOpen && <SyncSettings isOpen={isSyncSettingsOpen} onClose={() => setSyncSettingsOpen(false)} />}
+      <RestoreProgress />
     </div>
   )
 }
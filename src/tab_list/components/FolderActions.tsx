@@ -0,0 +1,97 @@
+import React from 'react';
+import { Download, FolderPlus, Lock, Pencil, RotateCcw, Trash2, Unlock } from 'lucide-react';
+import type { FolderActionsProps } from '../types';
+
+/**
+ * 文件夹操作栏组件
+ * 对选中的文件夹（含子文件夹）中的所有分组执行批量操作，并管理文件夹本身
+ */
+export const FolderActions: React.FC<FolderActionsProps> = ({ folder, groups, onUpdate }) => {
+  const tabCount = groups.reduce((total, group) => total + group.tabs.length, 0);
+  const allLocked = groups.length > 0 && groups.every((group) => group.locked);
+
+  const sendFolderMessage = async (message: Record<string, unknown>, errorLabel: string) => {
+    const response = await chrome.runtime.sendMessage({ ...message, folderId: folder.id });
+    if (!response.success) {
+      alert(`${errorLabel}: ${response.error}`);
+    }
+    onUpdate();
+  };
+
+  const handleCreateSubfolder = async () => {
+    const name = prompt('子文件夹名称');
+    if (!name?.trim()) {
+      return;
+    }
+    const response = await chrome.runtime.sendMessage({ action: 'createFolder', name, parentId: folder.id });
+    if (!response.success) {
+      alert(`创建失败: ${response.error}`);
+    }
+    onUpdate();
+  };
+
+  const handleRename = async () => {
+    const newName = prompt('文件夹名称', folder.name);
+    if (!newName?.trim() || newName.trim() === folder.name) {
+      return;
+    }
+    await sendFolderMessage({ action: 'renameFolder', newName }, '重命名失败');
+  };
+
+  const handleDelete = async () => {
+    if (confirm(`确定要删除文件夹"${folder.name}"吗？其中的分组和子文件夹将移到上一级，不会被删除。`)) {
+      await sendFolderMessage({ action: 'deleteFolder' }, '删除失败');
+    }
+  };
+
+  const buttonClass =
+    'inline-flex items-center rounded px-2 py-1 text-sm text-gray-600 hover:bg-gray-100 disabled:opacity-50';
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center justify-between gap-2 rounded-lg bg-white p-3 shadow-sm">
+      <div className="min-w-0">
+        <h2 className="truncate text-base font-medium text-gray-900">{folder.name}</h2>
+        <p className="text-xs text-gray-500">
+          {groups.length} 个分组 · {tabCount} 个标签页（含子文件夹）
+        </p>
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        <button
+          onClick={() => sendFolderMessage({ action: 'restoreFolder' }, '恢复失败')}
+          disabled={tabCount === 0}
+          className={buttonClass}
+        >
+          <RotateCcw className="mr-1 h-4 w-4" />
+          恢复全部
+        </button>
+        <button
+          onClick={() => sendFolderMessage({ action: 'setFolderLocked', locked: !allLocked }, '操作失败')}
+          disabled={groups.length === 0}
+          className={buttonClass}
+        >
+          {allLocked ? <Unlock className="mr-1 h-4 w-4" /> : <Lock className="mr-1 h-4 w-4" />}
+          {allLocked ? '全部解锁' : '全部锁定'}
+        </button>
+        <button
+          onClick={() => sendFolderMessage({ action: 'exportData', format: 'json' }, '导出失败')}
+          className={buttonClass}
+        >
+          <Download className="mr-1 h-4 w-4" />
+          导出
+        </button>
+        <button onClick={handleCreateSubfolder} className={buttonClass}>
+          <FolderPlus className="mr-1 h-4 w-4" />
+          子文件夹
+        </button>
+        <button onClick={handleRename} className={buttonClass}>
+          <Pencil className="mr-1 h-4 w-4" />
+          重命名
+        </button>
+        <button onClick={handleDelete} className={`${buttonClass} hover:text-red-600`}>
+          <Trash2 className="mr-1 h-4 w-4" />
+          删除
+        </button>
+      </div>
+    </div>
+  );
+};
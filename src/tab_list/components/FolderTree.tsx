@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronRight, Folder as FolderIcon, FolderPlus, Layers } from 'lucide-react';
+import type { Folder } from '../../types/background';
+import type { FolderTreeProps } from '../types';
+import { canMoveFolder, getFolderGroups } from '../../utils/folders';
+
+/** 拖动分组时 dataTransfer 中的数据类型 */
+export const GROUP_DRAG_TYPE = 'application/x-tab-sorter-group';
+
+/** 拖动文件夹时 dataTransfer 中的数据类型 */
+const FOLDER_DRAG_TYPE = 'application/x-tab-sorter-folder';
+
+/** "全部分组"项作为拖放目标时的标识（拖放到此处移到根目录） */
+const ROOT_DROP_TARGET = 'root';
+
+/**
+ * 文件夹树组件
+ * 以可折叠的树形结构显示文件夹，分组和文件夹可以拖放到其他文件夹中
+ */
+export const FolderTree: React.FC<FolderTreeProps> = ({
+  folders,
+  groups,
+  selectedFolderId,
+  onSelect,
+  onCreateFolder,
+  onMoveGroup,
+  onMoveFolder
+}) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // 按上级文件夹归类，上级文件夹不存在的视为顶层文件夹
+  const childrenByParent = useMemo(() => {
+    const folderIds = new Set(folders.map((folder) => folder.id));
+    const children = new Map<string, Folder[]>();
+    for (const folder of [...folders].sort((a, b) => a.name.localeCompare(b.name))) {
+      const parentId = folder.parentId && folderIds.has(folder.parentId) ? folder.parentId : ROOT_DROP_TARGET;
+      children.set(parentId, [...(children.get(parentId) || []), folder]);
+    }
+    return children;
+  }, [folders]);
+
+  const groupCounts = useMemo(
+    () => new Map(folders.map((folder) => [folder.id, getFolderGroups(groups, folders, folder.id).length])),
+    [folders, groups]
+  );
+
+  const toggleCollapsed = (folderId: string) => {
+    const next = new Set(collapsed);
+    if (next.has(folderId)) {
+      next.delete(folderId);
+    } else {
+      next.add(folderId);
+    }
+    setCollapsed(next);
+  };
+
+  const handleDragOver = (event: React.DragEvent, target: string) => {
+    const { types } = event.dataTransfer;
+    if (types.includes(GROUP_DRAG_TYPE) || types.includes(FOLDER_DRAG_TYPE)) {
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'move';
+      setDropTarget(target);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent, folderId?: string) => {
+    event.preventDefault();
+    setDropTarget(null);
+    const groupId = event.dataTransfer.getData(GROUP_DRAG_TYPE);
+    const movedFolderId = event.dataTransfer.getData(FOLDER_DRAG_TYPE);
+
+    if (groupId) {
+      onMoveGroup(groupId, folderId);
+    } else if (movedFolderId && canMoveFolder(folders, movedFolderId, folderId)) {
+      onMoveFolder(movedFolderId, folderId);
+    }
+  };
+
+  const getRowClass = (target: string, selected: boolean) => {
+    if (dropTarget === target) {
+      return 'bg-blue-100 text-blue-700 ring-1 ring-blue-400';
+    }
+    return selected ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-50';
+  };
+
+  const renderFolder = (folder: Folder, depth: number): React.ReactNode => {
+    const children = childrenByParent.get(folder.id) || [];
+    const isCollapsed = collapsed.has(folder.id);
+
+    return (
+      <div key={folder.id}>
+        <div
+          draggable
+          onDragStart={(event) => {
+            event.stopPropagation();
+            event.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id);
+            event.dataTransfer.effectAllowed = 'move';
+          }}
+          onDragOver={(event) => handleDragOver(event, folder.id)}
+          onDragLeave={() => setDropTarget(null)}
+          onDrop={(event) => handleDrop(event, folder.id)}
+          className={`flex items-center rounded ${getRowClass(folder.id, selectedFolderId === folder.id)}`}
+          style={{ paddingLeft: depth * 12 }}
+        >
+          <button
+            onClick={() => toggleCollapsed(folder.id)}
+            className={`p-1 text-gray-400 hover:text-gray-600 ${children.length > 0 ? '' : 'invisible'}`}
+            title={isCollapsed ? '展开' : '折叠'}
+          >
+            <ChevronRight className={`h-3 w-3 transition-transform ${isCollapsed ? '' : 'rotate-90'}`} />
+          </button>
+          <button
+            onClick={() => onSelect(folder.id)}
+            className="flex min-w-0 flex-1 items-center py-1 pr-2 text-left text-sm"
+          >
+            <FolderIcon className="mr-1 h-4 w-4 flex-shrink-0" />
+            <span className="truncate">{folder.name}</span>
+            <span className="ml-1 text-xs text-gray-400">{groupCounts.get(folder.id) || 0}</span>
+          </button>
+        </div>
+        {!isCollapsed && children.map((child) => renderFolder(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="rounded-lg bg-white p-3 shadow-sm">
+      <h3 className="mb-2 flex items-center justify-between text-sm font-medium text-gray-700">
+        <span className="flex items-center">
+          <FolderIcon className="mr-1 h-4 w-4" />
+          文件夹
+        </span>
+        <button onClick={onCreateFolder} className="p-1 text-gray-400 hover:text-blue-600" title="新建文件夹">
+          <FolderPlus className="h-4 w-4" />
+        </button>
+      </h3>
+      <button
+        onClick={() => onSelect(null)}
+        onDragOver={(event) => handleDragOver(event, ROOT_DROP_TARGET)}
+        onDragLeave={() => setDropTarget(null)}
+        onDrop={(event) => handleDrop(event)}
+        className={`mb-1 flex w-full items-center rounded px-2 py-1 text-left text-sm ${getRowClass(
+          ROOT_DROP_TARGET,
+          selectedFolderId === null
+        )}`}
+        title="拖放到此处可移出文件夹"
+      >
+        <Layers className="mr-1 h-4 w-4" />
+        全部分组
+        <span className="ml-1 text-xs text-gray-400">{groups.length}</span>
+      </button>
+      {(childrenByParent.get(ROOT_DROP_TARGET) || []).map((folder) => renderFolder(folder, 0))}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Ban } from 'lucide-react';
+import type { GroupAppearanceEditorProps } from '../types';
+import { GROUP_COLORS, GROUP_COLOR_HEX, GROUP_COLOR_LABELS, GROUP_ICON_NAMES } from '../../utils/groupAppearance';
+import { GROUP_ICON_COMPONENTS } from './GroupAvatar';
+
+/**
+ * 分组外观编辑器组件
+ * 从原生标签组的颜色中选择分组颜色，图标可输入 emoji 或选择内置的 lucide 图标
+ */
+export const GroupAppearanceEditor: React.FC<GroupAppearanceEditorProps> = ({ appearance, onChange, disabled }) => {
+  const [emoji, setEmoji] = useState(appearance.icon?.type === 'emoji' ? appearance.icon.value : '');
+
+  const optionClass = (selected: boolean) =>
+    `flex h-7 w-7 items-center justify-center rounded-md border disabled:opacity-50 ${
+      selected ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200 hover:border-gray-400'
+    }`;
+
+  const commitEmoji = () => {
+    const value = emoji.trim();
+    if (appearance.icon?.type === 'emoji' && appearance.icon.value === value) {
+      return;
+    }
+    if (value) {
+      onChange({ ...appearance, icon: { type: 'emoji', value } });
+    } else if (appearance.icon?.type === 'emoji') {
+      onChange({ ...appearance, icon: undefined });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="mb-1 text-xs text-gray-500">颜色（恢复时用作浏览器标签组的颜色）</div>
+        <div className="flex flex-wrap gap-1">
+          <button
+            onClick={() => onChange({ ...appearance, color: undefined })}
+            disabled={disabled}
+            className={optionClass(!appearance.color)}
+            title="无颜色"
+          >
+            <Ban className="h-4 w-4 text-gray-400" />
+          </button>
+          {GROUP_COLORS.map((color) => (
+            <button
+              key={color}
+              onClick={() => onChange({ ...appearance, color })}
+              disabled={disabled}
+              className={optionClass(appearance.color === color)}
+              title={GROUP_COLOR_LABELS[color]}
+            >
+              <span className="h-4 w-4 rounded-full" style={{ backgroundColor: GROUP_COLOR_HEX[color] }} />
+            </button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <div className="mb-1 text-xs text-gray-500">图标</div>
+        <div className="flex flex-wrap items-center gap-1">
+          <button
+            onClick={() => {
+              setEmoji('');
+              onChange({ ...appearance, icon: undefined });
+            }}
+            disabled={disabled}
+            className={optionClass(!appearance.icon)}
+            title="无图标"
+          >
+            <Ban className="h-4 w-4 text-gray-400" />
+          </button>
+          <input
+            type="text"
+            value={emoji}
+            onChange={(e) => setEmoji(e.target.value)}
+            onBlur={commitEmoji}
+            onKeyDown={(e) => e.key === 'Enter' && commitEmoji()}
+            disabled={disabled}
+            placeholder="emoji"
+            className={`h-7 w-16 rounded-md border px-2 text-center text-sm disabled:opacity-50 ${
+              appearance.icon?.type === 'emoji' ? 'border-blue-500' : 'border-gray-200'
+            }`}
+          />
+          {GROUP_ICON_NAMES.map((name) => {
+            const Icon = GROUP_ICON_COMPONENTS[name];
+            const selected = appearance.icon?.type === 'lucide' && appearance.icon.value === name;
+            return (
+              <button
+                key={name}
+                onClick={() => {
+                  setEmoji('');
+                  onChange({ ...appearance, icon: { type: 'lucide', value: name } });
+                }}
+                disabled={disabled}
+                className={optionClass(selected)}
+                title={name}
+              >
+                <Icon className="h-4 w-4 text-gray-600" />
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import {
+  BookOpen,
+  Briefcase,
+  Code,
+  Film,
+  Gamepad2,
+  Globe,
+  Heart,
+  Music,
+  Newspaper,
+  Plane,
+  ShoppingCart,
+  Star
+} from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import type { GroupAvatarProps } from '../types';
+import { GROUP_COLOR_HEX, isGroupIconName } from '../../utils/groupAppearance';
+import type { GroupIconName } from '../../utils/groupAppearance';
+
+/** 可选 lucide 图标对应的组件 */
+export const GROUP_ICON_COMPONENTS: Record<GroupIconName, LucideIcon> = {
+  briefcase: Briefcase,
+  'book-open': BookOpen,
+  code: Code,
+  globe: Globe,
+  music: Music,
+  film: Film,
+  'shopping-cart': ShoppingCart,
+  newspaper: Newspaper,
+  plane: Plane,
+  'gamepad-2': Gamepad2,
+  heart: Heart,
+  star: Star
+};
+
+/** 没有设置颜色时使用的色值 */
+const DEFAULT_COLOR = '#6b7280';
+
+/**
+ * 分组图标组件
+ * 以分组颜色为底色显示 emoji 或 lucide 图标，没有图标时显示分组名称的首字
+ */
+export const GroupAvatar: React.FC<GroupAvatarProps> = ({ group, size = 'md' }) => {
+  const color = group.color ? GROUP_COLOR_HEX[group.color] : DEFAULT_COLOR;
+  const Icon =
+    group.icon?.type === 'lucide' && isGroupIconName(group.icon.value) ? GROUP_ICON_COMPONENTS[group.icon.value] : null;
+
+  let content: React.ReactNode = Array.from(group.name.trim())[0] || '?';
+  if (Icon) {
+    content = <Icon className={size === 'sm' ? 'h-3 w-3' : 'h-4 w-4'} />;
+  } else if (group.icon?.type === 'emoji') {
+    content = group.icon.value;
+  }
+
+  return (
+    <span
+      className={`inline-flex flex-shrink-0 items-center justify-center rounded-md font-medium ${
+        size === 'sm' ? 'h-5 w-5 text-xs' : 'h-8 w-8 text-base'
+      }`}
+      // 8 位十六进制色值的末两位为透明度
+      style={{ color, backgroundColor: `${color}1f` }}
+    >
+      {content}
+    </span>
+  );
+};
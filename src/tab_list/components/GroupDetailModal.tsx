@@ -1,5 +1,13 @@
-import React, { useState } from 'react';
-import type { Tab, Group, GroupDetailModalProps } from '../types';
+import React, { useState, useEffect } from 'react';
+import { Pin } from 'lucide-react';
+import type { Tab, Group, GroupAppearance, GroupDetailModalProps } from '../types';
+import type { RestoreConsumePolicy, RestoreDedupeMode, WindowSummary } from '../../types/background';
+import { StorageManager } from '../../utils/storage';
+import { RESTORE_DEDUPE_MODE_LABELS, shouldConsumeOnRestore } from '../../utils/restorePolicy';
+import { formatTabActivity } from '../../utils/tabActivity';
+import { TagEditor } from './TagEditor';
+import { GroupAvatar } from './GroupAvatar';
+import { GroupAppearanceEditor } from './GroupAppearanceEditor';
 
 /**
  * 分组详情模态框组件
@@ -12,6 +20,26 @@ export const GroupDetailModal: React.FC<GroupDetailModalProps> = ({
 }) => {
   const [isEditingName, setIsEditingName] = useState(false);
   const [groupName, setGroupName] = useState(group.name);
+  const [lazyRestore, setLazyRestore] = useState(false);
+  const [consumePolicy, setConsumePolicy] = useState<RestoreConsumePolicy>('keep');
+  const [dedupeMode, setDedupeMode] = useState<RestoreDedupeMode>('off');
+  // 恢复目标："current" 当前窗口、"replace" 替换当前窗口，其余为目标窗口ID
+  const [restoreTarget, setRestoreTarget] = useState('current');
+  const [saveReplacedTabs, setSaveReplacedTabs] = useState(true);
+  const [windows, setWindows] = useState<WindowSummary[]>([]);
+
+  useEffect(() => {
+    StorageManager.getUserSettings().then((settings) => {
+      setLazyRestore(settings.lazyRestore);
+      setConsumePolicy(settings.restoreConsumePolicy);
+      setDedupeMode(settings.restoreDedupeMode);
+    });
+    chrome.runtime.sendMessage({ action: "getWindows" }).then((response) => {
+      if (response.success) {
+        setWindows(response.data);
+      }
+    });
+  }, []);
 
   /**
    * 保存分组名称
@@ -51,6 +79,75 @@ export const GroupDetailModal: React.FC<GroupDetailModalProps> = ({
     }
   };
 
+  /**
+   * 修改分组的颜色和图标
+   * @param appearance 新的外观
+   */
+  const handleAppearanceChange = async (appearance: GroupAppearance) => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "updateGroupAppearance",
+        groupId: group.id,
+        color: appearance.color,
+        icon: appearance.icon,
+      });
+      if (!response.success) {
+        alert("修改外观失败: " + response.error);
+        return;
+      }
+      onUpdate();
+    } catch (error) {
+      alert("修改外观失败: " + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  /**
+   * 修改分组的标签
+   * @param tags 新的标签列表
+   */
+  const handleGroupTagsChange = async (tags: string[]) => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "updateGroupTags",
+        groupId: group.id,
+        tags,
+      });
+      if (!response.success) {
+        alert("修改标签失败: " + response.error);
+        return;
+      }
+      onUpdate();
+    } catch (error) {
+      alert("修改标签失败: " + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  /**
+   * 修改单个标签页的标签
+   * @param tab 标签页
+   * @param tags 新的标签列表
+   */
+  const handleTabTagsChange = async (tab: Tab, tags: string[]) => {
+    if (!tab.uid) {
+      return;
+    }
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "updateTabTags",
+        groupId: group.id,
+        tabUid: tab.uid,
+        tags,
+      });
+      if (!response.success) {
+        alert("修改标签失败: " + response.error);
+        return;
+      }
+      onUpdate();
+    } catch (error) {
+      alert("修改标签失败: " + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
   /**
    * 删除分组
    */
@@ -75,28 +172,90 @@ export const GroupDetailModal: React.FC<GroupDetailModalProps> = ({
 
   /**
    * 恢复分组中的所有标签页
+   * 按"恢复后的移除策略"决定是否同时从列表中移除分组
+   * @param openInNewWindow 是否在新窗口中恢复
    */
-  const handleRestoreGroup = async () => {
+  const restoreGroup = async (openInNewWindow: boolean) => {
+    const consume = shouldConsumeOnRestore(group, consumePolicy);
+    const target = openInNewWindow
+      ? { openInNewWindow: true }
+      : restoreTarget === "replace"
+        ? { replaceCurrentWindow: true, saveReplacedTabs }
+        : { windowId: restoreTarget === "current" ? undefined : Number(restoreTarget) };
     try {
-      await chrome.runtime.sendMessage({
-        action: "restoreTabs",
-        tabs: group.tabs,
-      });
+      await chrome.runtime.sendMessage(
+        consume
+          ? {
+              action: "restoreAndRemove",
+              groupId: group.id,
+              ...target,
+              dedupe: dedupeMode,
+              lazy: lazyRestore,
+            }
+          : {
+              action: "restoreTabs",
+              groupId: group.id,
+              name: group.name,
+              tabs: group.tabs,
+              nativeGroups: group.nativeGroups,
+              ...target,
+              dedupe: dedupeMode,
+              lazy: lazyRestore,
+            }
+      );
       onClose();
+      // 刷新以显示移除结果和打开记录
+      onUpdate();
     } catch (error) {
       alert("恢复失败: " + (error instanceof Error ? error.message : String(error)));
     }
   };
 
+  /**
+   * 在选定的目标窗口中恢复所有标签页
+   */
+  const handleRestoreGroup = () => restoreGroup(false);
+
   /**
    * 在新窗口中恢复标签页
    */
-  const handleRestoreInNewWindow = async () => {
+  const handleRestoreInNewWindow = () => restoreGroup(true);
+
+  /**
+   * 恢复单个标签页
+   * @param tabUid 标签页ID
+   */
+  const handleRestoreTab = async (tabUid: string) => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "restoreTab",
+        groupId: group.id,
+        tabUid,
+      });
+      if (!response.success) {
+        alert("恢复失败: " + response.error);
+        return;
+      }
+      // 最后一个标签页被移除后分组随之删除
+      if (response.data && group.tabs.length === 1) {
+        onClose();
+      }
+      // 刷新以显示移除结果和打开记录
+      onUpdate();
+    } catch (error) {
+      alert("恢复失败: " + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  /**
+   * 按原窗口布局恢复整个批次
+   */
+  const handleRestoreBatch = async () => {
     try {
       await chrome.runtime.sendMessage({
-        action: "restoreTabs",
-        tabs: group.tabs,
-        openInNewWindow: true,
+        action: "restoreBatch",
+        batchId: group.batchId,
+        lazy: lazyRestore,
       });
       onClose();
     } catch (error) {
@@ -118,6 +277,7 @@ export const GroupDetailModal: React.FC<GroupDetailModalProps> = ({
         {/* 模态框头部 */}
         <div className="p-6 border-b flex justify-between items-center">
           <div className="flex items-center space-x-3">
+            <GroupAvatar group={group} />
             {isEditingName ? (
               <input
                 value={groupName}
@@ -188,6 +348,23 @@ export const GroupDetailModal: React.FC<GroupDetailModalProps> = ({
               </span>
             </div>
           </div>
+          <div className="mt-3 flex items-center text-sm">
+            <span className="text-gray-500 flex-shrink-0 mr-2">分组标签：</span>
+            <TagEditor
+              tags={group.tags || []}
+              onChange={handleGroupTagsChange}
+              disabled={group.locked}
+              placeholder="添加分组标签，回车确认"
+            />
+          </div>
+          <div className="mt-3 flex items-start text-sm">
+            <span className="text-gray-500 flex-shrink-0 mr-2">分组外观：</span>
+            <GroupAppearanceEditor
+              appearance={{ color: group.color, icon: group.icon }}
+              onChange={handleAppearanceChange}
+              disabled={group.locked}
+            />
+          </div>
         </div>
 
         {/* 标签页列表 */}
@@ -196,7 +373,7 @@ export const GroupDetailModal: React.FC<GroupDetailModalProps> = ({
           <div className="space-y-2">
             {group.tabs.map((tab, index) => (
               <div
-                key={`${tab.id}-${index}`}
+                key={tab.uid ?? index}
                 className="flex items-center p-3 hover:bg-gray-50 rounded-lg border border-gray-100"
               >
                 <img
@@ -208,18 +385,28 @@ export const GroupDetailModal: React.FC<GroupDetailModalProps> = ({
                   }}
                 />
                 <div className="flex-1 min-w-0">
-                  <div className="font-medium text-gray-900 truncate" title={tab.title}>
-                    {tab.title}
+                  <div className="flex items-center font-medium text-gray-900" title={tab.title}>
+                    <span className="truncate">{tab.title}</span>
+                    {tab.pinned && (
+                      <Pin className="w-3 h-3 ml-2 flex-shrink-0 text-gray-400" aria-label="固定标签页" />
+                    )}
                   </div>
                   <div className="text-sm text-gray-500 truncate" title={tab.url}>
                     {tab.url}
                   </div>
+                  <div className="text-xs text-gray-400 truncate">{formatTabActivity(tab)}</div>
+                  <div className="mt-1">
+                    <TagEditor
+                      tags={tab.tags || []}
+                      onChange={(tags) => handleTabTagsChange(tab, tags)}
+                      disabled={group.locked || !tab.uid}
+                    />
+                  </div>
                 </div>
-                <a
-                  href={tab.url}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="ml-3 text-blue-600 hover:text-blue-800 flex-shrink-0"
+                <button
+                  onClick={() => tab.uid && handleRestoreTab(tab.uid)}
+                  disabled={!tab.uid}
+                  className="ml-3 text-blue-600 hover:text-blue-800 flex-shrink-0 disabled:opacity-50"
                   title="在新标签页中打开"
                 >
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -230,7 +417,7 @@ export const GroupDetailModal: React.FC<GroupDetailModalProps> = ({
                       d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
                     />
                   </svg>
-                </a>
+                </button>
               </div>
             ))}
           </div>
@@ -275,7 +462,25 @@ export const GroupDetailModal: React.FC<GroupDetailModalProps> = ({
               删除分组
             </button>
           </div>
-          <div className="flex space-x-3">
+          <div className="flex items-center space-x-3">
+            <label className="flex items-center" title="只立即加载活动标签页，其余标签页切换到时再加载">
+              <input
+                type="checkbox"
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                checked={lazyRestore}
+                onChange={(e) => setLazyRestore(e.target.checked)}
+              />
+              <span className="ml-2 text-sm text-gray-700">延迟加载</span>
+            </label>
+            {group.batchId !== undefined && (
+              <button
+                onClick={handleRestoreBatch}
+                className="btn btn-secondary"
+                title="将同一次聚合的所有窗口按原布局恢复"
+              >
+                恢复窗口布局
+              </button>
+            )}
             <button 
               onClick={handleRestoreInNewWindow} 
               className="btn btn-secondary"
@@ -283,10 +488,47 @@ export const GroupDetailModal: React.FC<GroupDetailModalProps> = ({
             >
               新窗口恢复
             </button>
+            <select
+              value={dedupeMode}
+              onChange={(e) => setDedupeMode(e.target.value as RestoreDedupeMode)}
+              className="input-field w-44"
+              title="已在其他窗口打开的标签页"
+            >
+              {Object.entries(RESTORE_DEDUPE_MODE_LABELS).map(([mode, label]) => (
+                <option key={mode} value={mode}>
+                  已打开：{label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={restoreTarget}
+              onChange={(e) => setRestoreTarget(e.target.value)}
+              className="input-field w-48"
+              title="恢复到的窗口"
+            >
+              <option value="current">当前窗口</option>
+              {windows.filter((w) => !w.focused).map((w) => (
+                <option key={w.id} value={String(w.id)}>
+                  {w.title}（{w.tabCount} 个标签页）
+                </option>
+              ))}
+              <option value="replace">替换当前窗口</option>
+            </select>
+            {restoreTarget === "replace" && (
+              <label className="flex items-center" title="关闭前将当前窗口中未固定的标签页保存为新分组">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  checked={saveReplacedTabs}
+                  onChange={(e) => setSaveReplacedTabs(e.target.checked)}
+                />
+                <span className="ml-2 text-sm text-gray-700">先保存</span>
+              </label>
+            )}
             <button 
               onClick={handleRestoreGroup} 
               className="btn btn-primary"
-              title="在当前窗口中恢复所有标签页"
+              title={restoreTarget === "replace" ? "关闭当前窗口中未固定的标签页，并在原处恢复分组" : "在选定的窗口中恢复所有标签页"}
             >
               恢复标签页
             </button>
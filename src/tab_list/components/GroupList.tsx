@@ -1,12 +1,16 @@
 import React, { useState } from 'react'
 import { FolderOpen } from 'lucide-react'
 import type { Tab, Group, GroupListProps } from '../types'
+import { TagChips } from './TagChips'
+import { GROUP_DRAG_TYPE } from './FolderTree'
+import { GroupAvatar } from './GroupAvatar'
+import { GROUP_COLOR_HEX } from '../../utils/groupAppearance'
 
 /**
  * 分组列表组件
  * 根据视图模式显示分组列表（网格或列表）
  */
-export const GroupList: React.FC<GroupListProps> = ({ groups, view, onGroupClick }) => {
+export const GroupList: React.FC<GroupListProps> = ({ groups, view, onGroupClick, onTabRestore, onTagClick }) => {
   if (groups.length === 0) {
     return (
       <div className="text-center py-12">
@@ -24,7 +28,14 @@ export const GroupList: React.FC<GroupListProps> = ({ groups, view, onGroupClick
       className={view === 'grid' ? 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6' : 'space-y-4'}
     >
       {groups.map((group) => (
-        <GroupCard key={group.id} group={group} view={view} onClick={() => onGroupClick(group)} />
+        <GroupCard
+          key={group.id}
+          group={group}
+          view={view}
+          onClick={() => onGroupClick(group)}
+          onTabClick={(tabIndex) => onTabRestore(group, tabIndex)}
+          onTagClick={onTagClick}
+        />
       ))}
     </div>
   )
@@ -40,13 +51,17 @@ interface GroupCardProps {
   view: string
   /** 点击回调 */
   onClick: () => void
+  /** 标签页点击回调 */
+  onTabClick: (tabIndex: number) => void
+  /** 标签点击回调 */
+  onTagClick: (tag: string) => void
 }
 
 /**
  * 分组卡片组件
  * 显示单个分组的信息
  */
-const GroupCard: React.FC<GroupCardProps> = ({ group, view, onClick }) => {
+const GroupCard: React.FC<GroupCardProps> = ({ group, view, onClick, onTabClick, onTagClick }) => {
   const [isExpanded, setIsExpanded] = useState(true)
   const formatDate = (dateString: string) => {
     const date = new Date(dateString)
@@ -59,6 +74,15 @@ const GroupCard: React.FC<GroupCardProps> = ({ group, view, onClick }) => {
     })
   }
 
+  // 拖放到文件夹树中的文件夹即可移动分组
+  const handleDragStart = (event: React.DragEvent) => {
+    event.dataTransfer.setData(GROUP_DRAG_TYPE, group.id)
+    event.dataTransfer.effectAllowed = 'move'
+  }
+
+  // 设置了颜色的分组以该颜色作为卡片的边框色（列表视图为左边框，网格视图为上边框）
+  const accentColor = group.color ? GROUP_COLOR_HEX[group.color] : undefined
+
   const getDomainCount = (tabs: Tab[]) => {
     const domains = new Set(
       tabs.map((tab) => {
@@ -74,7 +98,12 @@ const GroupCard: React.FC<GroupCardProps> = ({ group, view, onClick }) => {
 
   if (view === 'list') {
     return (
-      <div className="bg-white rounded-lg shadow-sm border border-gray-200 hover:shadow-md transition-shadow">
+      <div
+        draggable
+        onDragStart={handleDragStart}
+        className="bg-white rounded-lg shadow-sm border border-gray-200 hover:shadow-md transition-shadow"
+        style={accentColor ? { borderLeft: `4px solid ${accentColor}` } : undefined}
+      >
         {/* 分组头部 */}
         <div className="p-4 border-b border-gray-100">
           <div className="flex items-center justify-between">
@@ -100,6 +129,7 @@ const GroupCard: React.FC<GroupCardProps> = ({ group, view, onClick }) => {
                       clipRule="evenodd"
                     />
                   </svg>
+                  <GroupAvatar group={group} size="sm" />
                   <h3 className="text-lg font-medium text-gray-900 truncate">{group.name}</h3>
                 </button>
                 {group.locked && (
@@ -120,6 +150,11 @@ const GroupCard: React.FC<GroupCardProps> = ({ group, view, onClick }) => {
                 <span>{getDomainCount(group.tabs)} 个域名</span>
                 <span>{formatDate(group.createdAt)}</span>
               </div>
+              {group.tags && (
+                <div className="mt-2">
+                  <TagChips tags={group.tags} onTagClick={onTagClick} />
+                </div>
+              )}
             </div>
             <div className="flex items-center space-x-2">
               <button
@@ -140,10 +175,7 @@ const GroupCard: React.FC<GroupCardProps> = ({ group, view, onClick }) => {
                 <div
                   key={index}
                   className="flex items-center space-x-3 p-2 hover:bg-gray-50 rounded transition-colors cursor-pointer"
-                  onClick={() => {
-                    // 打开标签页
-                    window.open(tab.url, '_blank')
-                  }}
+                  onClick={() => onTabClick(index)}
                 >
                   <img
                     src={tab.favIconUrl || '../icons/icon16.svg'}
@@ -158,6 +190,7 @@ const GroupCard: React.FC<GroupCardProps> = ({ group, view, onClick }) => {
                       {tab.url}
                     </div>
                   </div>
+                  {tab.tags && <TagChips tags={tab.tags} onTagClick={onTagClick} />}
                   <svg
                     className="w-4 h-4 text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity"
                     fill="none"
@@ -182,11 +215,17 @@ const GroupCard: React.FC<GroupCardProps> = ({ group, view, onClick }) => {
 
   return (
     <div
+      draggable
+      onDragStart={handleDragStart}
       onClick={onClick}
       className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 hover:shadow-md transition-shadow cursor-pointer"
+      style={accentColor ? { borderTop: `4px solid ${accentColor}` } : undefined}
     >
       <div className="flex items-start justify-between mb-4">
-        <h3 className="text-lg font-medium text-gray-900 truncate pr-2">{group.name}</h3>
+        <div className="flex items-center space-x-2 min-w-0">
+          <GroupAvatar group={group} />
+          <h3 className="text-lg font-medium text-gray-900 truncate pr-2">{group.name}</h3>
+        </div>
         {group.locked && (
           <span className="inline-flex items-center px-2 py-1 text-xs bg-yellow-100 text-yellow-800 rounded-full flex-shrink-0">
             <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
@@ -201,6 +240,12 @@ const GroupCard: React.FC<GroupCardProps> = ({ group, view, onClick }) => {
         )}
       </div>
 
+      {group.tags && (
+        <div className="mb-4">
+          <TagChips tags={group.tags} onTagClick={onTagClick} />
+        </div>
+      )}
+
       <div className="space-y-3 mb-4">
         <div className="flex items-center justify-between text-sm">
           <span className="text-gray-500">标签页数量</span>
@@ -7,6 +7,7 @@ import type { HeaderProps } from '../types';
  * 包含应用标题、搜索框、新建分组按钮和设置按钮
  */
 export const Header: React.FC<HeaderProps> = ({ 
+  searchQuery,
   onSearch, 
   onNewGroup, 
   onOpenSettings,
@@ -34,6 +35,7 @@ export const Header: React.FC<HeaderProps> = ({
             <input
               type="text"
               placeholder="搜索分组或标签页..."
+              value={searchQuery}
               onChange={(e) => onSearch(e.target.value)}
               className="input-field w-64"
             />
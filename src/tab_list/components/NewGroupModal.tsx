@@ -1,14 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import type { Tab, NewGroupModalProps } from '../types';
+import { getExcludeRules, shouldExcludeUrl } from '../../utils/excludeRules';
 
 /**
  * 新建分组模态框组件
  * 允许用户创建新的标签页分组，可以选择当前窗口的标签页
  */
 export const NewGroupModal: React.FC<NewGroupModalProps> = ({ 
+  groups,
   onClose, 
-  onSave 
+  onSave,
+  onAppend
 }) => {
+  const [mode, setMode] = useState<'create' | 'append'>('create');
+  const [targetGroupId, setTargetGroupId] = useState('');
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
   const [name, setName] = useState("");
   const [tabs, setTabs] = useState<Tab[]>([]);
   const [selectedTabs, setSelectedTabs] = useState<Tab[]>([]);
@@ -22,13 +28,14 @@ export const NewGroupModal: React.FC<NewGroupModalProps> = ({
       try {
         setLoading(true);
         const currentTabs = await chrome.tabs.query({ currentWindow: true });
+        const response = await chrome.runtime.sendMessage({ action: 'getData' });
+        const excludeRules = response.success ? getExcludeRules(response.data.settings) : [];
         
-        // 过滤掉当前页面和扩展页面
+        // 过滤掉扩展页面和匹配排除规则的页面
         const filteredTabs = currentTabs.filter(tab => {
-          return !tab.url?.includes('chrome-extension://') && 
-                 !tab.url?.startsWith('chrome://') &&
-                 !tab.url?.startsWith('edge://') &&
-                 !tab.url?.startsWith('about:');
+          return !!tab.url &&
+                 !tab.url.includes('chrome-extension://') &&
+                 !shouldExcludeUrl(tab.url, excludeRules);
         });
         
         const formattedTabs = filteredTabs.map(tab => ({
@@ -71,10 +78,27 @@ export const NewGroupModal: React.FC<NewGroupModalProps> = ({
     }
   };
 
+  // 锁定的分组不能追加标签页
+  const appendableGroups = groups.filter(group => !group.locked);
+
   /**
    * 保存分组
    */
   const handleSave = () => {
+    if (mode === 'append') {
+      const targetGroup = appendableGroups.find(group => String(group.id) === targetGroupId);
+      if (!targetGroup) {
+        alert('请选择目标分组');
+        return;
+      }
+      if (selectedTabs.length === 0) {
+        alert('请至少选择一个标签页');
+        return;
+      }
+      onAppend(targetGroup.id, selectedTabs, skipDuplicates);
+      return;
+    }
+
     if (name.trim() === '') {
       alert('请输入分组名称');
       return;
@@ -131,29 +155,80 @@ export const NewGroupModal: React.FC<NewGroupModalProps> = ({
           </button>
         </div>
 
-        {/* 分组名称 */}
-        <div className="p-6 border-b">
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            分组名称
+        {/* 保存方式 */}
+        <div className="px-6 pt-4 flex space-x-6 text-sm text-gray-700">
+          <label className="flex items-center">
+            <input
+              type="radio"
+              checked={mode === 'create'}
+              onChange={() => setMode('create')}
+              className="mr-2"
+            />
+            新建分组
           </label>
-          <div className="flex space-x-3">
+          <label className="flex items-center">
             <input
-              type="text"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              placeholder="输入分组名称"
-              className="input-field flex-1"
-              autoFocus
+              type="radio"
+              checked={mode === 'append'}
+              onChange={() => setMode('append')}
+              disabled={appendableGroups.length === 0}
+              className="mr-2"
             />
-            <button 
-              onClick={useDefaultName}
-              className="btn btn-secondary"
-              title="使用默认名称"
+            添加到已有分组
+          </label>
+        </div>
+
+        {mode === 'append' ? (
+          <div className="p-6 border-b">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              目标分组
+            </label>
+            <select
+              value={targetGroupId}
+              onChange={(e) => setTargetGroupId(e.target.value)}
+              className="input-field w-full"
             >
-              使用默认名称
-            </button>
+              <option value="">选择分组...</option>
+              {appendableGroups.map((group) => (
+                <option key={group.id} value={String(group.id)}>
+                  {group.name}（{group.tabs.length} 个标签页）
+                </option>
+              ))}
+            </select>
+            <label className="mt-3 flex items-center text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={skipDuplicates}
+                onChange={(e) => setSkipDuplicates(e.target.checked)}
+                className="mr-2 h-4 w-4"
+              />
+              跳过分组中已有的网址
+            </label>
           </div>
-        </div>
+        ) : (
+          <div className="p-6 border-b">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              分组名称
+            </label>
+            <div className="flex space-x-3">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="输入分组名称"
+                className="input-field flex-1"
+                autoFocus
+              />
+              <button 
+                onClick={useDefaultName}
+                className="btn btn-secondary"
+                title="使用默认名称"
+              >
+                使用默认名称
+              </button>
+            </div>
+          </div>
+        )}
 
         {/* 标签页选择 */}
         <div className="flex-1 overflow-y-auto p-6">
@@ -226,9 +301,9 @@ export const NewGroupModal: React.FC<NewGroupModalProps> = ({
           <button 
             onClick={handleSave} 
             className="btn btn-primary"
-            disabled={selectedTabs.length === 0 || name.trim() === ''}
+            disabled={selectedTabs.length === 0 || (mode === 'create' ? name.trim() === '' : targetGroupId === '')}
           >
-            创建分组
+            {mode === 'create' ? '创建分组' : '添加到分组'}
             {selectedTabs.length > 0 && (
               <span className="ml-1 text-sm">({selectedTabs.length})</span>
             )}
@@ -0,0 +1,110 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+import type { RestoreJobProgress, RestoreJobStatus } from '../../types/background';
+import { connectRestoreProgress } from '../../utils/restoreProgress';
+import { formatDedupeSummary } from '../../utils/restorePolicy';
+import type { RestoreProgressConnection } from '../../utils/restoreProgress';
+
+/** 已结束作业的状态说明 */
+const FINISHED_STATUS_LABELS: Partial<Record<RestoreJobStatus, string>> = {
+  completed: '已完成',
+  cancelled: '已取消',
+  failed: '失败'
+};
+
+/** 已结束的作业继续显示的时间（毫秒） */
+const FINISHED_DISPLAY_MS = 3000;
+
+/**
+ * 判断作业是否已结束
+ * @param job 作业进度
+ */
+function isFinished(job: RestoreJobProgress): boolean {
+  return Boolean(FINISHED_STATUS_LABELS[job.status]);
+}
+
+/**
+ * 合并后台发送的作业列表
+ * 后台会移除已结束的作业，页面保留其最终状态一段时间
+ * @param previous 当前显示的作业
+ * @param latest 后台发送的作业
+ */
+function mergeJobs(previous: RestoreJobProgress[], latest: RestoreJobProgress[]): RestoreJobProgress[] {
+  const latestIds = new Set(latest.map((job) => job.id));
+  const finished = previous.filter((job) => !latestIds.has(job.id) && isFinished(job));
+  return [...latest, ...finished];
+}
+
+/**
+ * 移除已结束的作业
+ * @param jobs 作业列表
+ */
+function removeFinishedJobs(jobs: RestoreJobProgress[]): RestoreJobProgress[] {
+  return jobs.filter((job) => !isFinished(job));
+}
+
+/**
+ * 恢复进度组件
+ * 显示后台正在执行的恢复作业，支持取消
+ */
+export const RestoreProgress: React.FC = () => {
+  const [jobs, setJobs] = useState<RestoreJobProgress[]>([]);
+  const connectionRef = useRef<RestoreProgressConnection | null>(null);
+
+  useEffect(() => {
+    const connection = connectRestoreProgress((latestJobs) => {
+      setJobs((previous) => mergeJobs(previous, latestJobs));
+    });
+    connectionRef.current = connection;
+    return () => connection.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!jobs.some(isFinished)) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      setJobs(removeFinishedJobs);
+    }, FINISHED_DISPLAY_MS);
+    return () => clearTimeout(timer);
+  }, [jobs]);
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-30 w-80 space-y-2">
+      {jobs.map((job) => (
+        <div key={job.id} className="bg-white rounded-lg shadow-lg border border-gray-200 p-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-900 truncate">{job.label}</span>
+            {isFinished(job) ? (
+              <span className={`text-xs ${job.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                {FINISHED_STATUS_LABELS[job.status]}
+              </span>
+            ) : (
+              <button
+                onClick={() => connectionRef.current?.cancel(job.id)}
+                className="p-1 rounded hover:bg-gray-100 text-gray-500"
+                title="取消恢复"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          <div className="mt-2 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-600 transition-all"
+              style={{ width: `${job.total > 0 ? (job.restored / job.total) * 100 : 0}%` }}
+            />
+          </div>
+          <p className="mt-1 text-xs text-gray-500">{job.error || `${job.restored} / ${job.total} 个标签页`}</p>
+          {formatDedupeSummary(job.dedupe) && (
+            <p className="text-xs text-gray-500">{formatDedupeSummary(job.dedupe)}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import { History } from 'lucide-react';
+import type { SessionSnapshot, SnapshotReason } from '../../types/background';
+import type { SessionListProps } from '../types';
+
+/** 快照触发原因的显示名称 */
+const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  interval: '定时记录',
+  windowClosed: '窗口关闭'
+};
+
+/**
+ * 格式化快照记录时间
+ */
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('zh-CN', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+/**
+ * 从后台读取会话快照
+ */
+const fetchSnapshots = async (): Promise<SessionSnapshot[]> => {
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'getSnapshots' });
+    return response.success ? response.data : [];
+  } catch (error) {
+    console.error('Error loading snapshots:', error);
+    return [];
+  }
+};
+
+/**
+ * 会话快照列表组件
+ * 显示后台自动记录的会话快照，支持整体或按窗口恢复，以及转换为普通分组
+ */
+export const SessionList: React.FC<SessionListProps> = ({ onGroupsChanged }) => {
+  const [snapshots, setSnapshots] = useState<SessionSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchSnapshots().then((result) => {
+      setSnapshots(result);
+      setLoading(false);
+    });
+  }, []);
+
+  /**
+   * 恢复快照（指定 windowIndex 时只恢复该窗口）
+   */
+  const handleRestore = async (snapshotId: number, windowIndex?: number) => {
+    const response = await chrome.runtime.sendMessage({ action: 'restoreSnapshot', snapshotId, windowIndex });
+    if (!response.success) {
+      alert(`恢复失败: ${response.error}`);
+    }
+  };
+
+  /**
+   * 将快照转换为分组（指定 windowIndex 时只转换该窗口）
+   */
+  const handleConvert = async (snapshotId: number, windowIndex?: number) => {
+    const response = await chrome.runtime.sendMessage({ action: 'snapshotToGroups', snapshotId, windowIndex });
+    if (!response.success) {
+      alert(`转换失败: ${response.error}`);
+      return;
+    }
+    alert(`已创建 ${response.data} 个分组`);
+    onGroupsChanged();
+  };
+
+  /**
+   * 删除快照
+   */
+  const handleDelete = async (snapshotId: number) => {
+    if (!confirm('确定要删除这个快照吗？')) {
+      return;
+    }
+    const response = await chrome.runtime.sendMessage({ action: 'deleteSnapshot', snapshotId });
+    if (!response.success) {
+      alert(`删除失败: ${response.error}`);
+      return;
+    }
+    setSnapshots(await fetchSnapshots());
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+        <p className="mt-2 text-gray-600">加载中...</p>
+      </div>
+    );
+  }
+
+  if (snapshots.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-gray-400 mb-4">
+          <History className="w-16 h-16 mx-auto" />
+        </div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">暂无会话快照</h3>
+        <p className="text-gray-500">后台每隔几分钟以及关闭窗口时会自动记录所有打开的窗口</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {snapshots.map((snapshot) => (
+        <div key={snapshot.id} className="bg-white rounded-lg shadow-sm border border-gray-200">
+          {/* 快照头部 */}
+          <div className="p-4 border-b border-gray-100 flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">{formatDate(snapshot.createdAt)}</h3>
+              <p className="text-sm text-gray-500">
+                {SNAPSHOT_REASON_LABELS[snapshot.reason]} · {snapshot.windows.length} 个窗口 ·{' '}
+                {snapshot.windows.reduce((acc, snapshotWindow) => acc + snapshotWindow.tabs.length, 0)} 个标签页
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button onClick={() => handleRestore(snapshot.id)} className="btn btn-primary">
+                全部恢复
+              </button>
+              <button onClick={() => handleConvert(snapshot.id)} className="btn btn-secondary">
+                转为分组
+              </button>
+              <button onClick={() => handleDelete(snapshot.id)} className="btn btn-danger">
+                删除
+              </button>
+            </div>
+          </div>
+
+          {/* 快照中的窗口 */}
+          <ul className="divide-y divide-gray-100">
+            {snapshot.windows.map((snapshotWindow, index) => (
+              <li key={snapshotWindow.windowId} className="px-4 py-3 flex items-center justify-between">
+                <div className="flex items-center min-w-0">
+                  <div className="flex -space-x-1 mr-3">
+                    {snapshotWindow.tabs.slice(0, 5).map((tab) => (
+                      <img key={tab.id} src={tab.favIconUrl} alt="" className="w-4 h-4 rounded-sm bg-white" />
+                    ))}
+                  </div>
+                  <span className="text-sm text-gray-900 truncate">
+                    窗口 {index + 1} - {snapshotWindow.title}
+                  </span>
+                  <span className="ml-2 text-xs text-gray-500 flex-shrink-0">{snapshotWindow.tabs.length} 个标签页</span>
+                </div>
+                <div className="flex items-center space-x-3 flex-shrink-0 ml-4">
+                  <button
+                    onClick={() => handleRestore(snapshot.id, index)}
+                    className="text-sm text-blue-600 hover:underline"
+                  >
+                    恢复此窗口
+                  </button>
+                  <button
+                    onClick={() => handleConvert(snapshot.id, index)}
+                    className="text-sm text-gray-600 hover:underline"
+                  >
+                    转为分组
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
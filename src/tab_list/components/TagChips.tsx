@@ -0,0 +1,47 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import type { TagChipsProps } from '../types';
+
+/**
+ * 标签列表组件
+ * 以小圆角标签显示标签，可点击筛选或移除
+ */
+export const TagChips: React.FC<TagChipsProps> = ({ tags, onTagClick, onRemove }) => {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          onClick={(e) => {
+            if (onTagClick) {
+              e.stopPropagation();
+              onTagClick(tag);
+            }
+          }}
+          className={`inline-flex items-center rounded-full bg-blue-50 px-2 py-0.5 text-xs text-blue-700 ${
+            onTagClick ? 'cursor-pointer hover:bg-blue-100' : ''
+          }`}
+          title={onTagClick ? `按标签 #${tag} 筛选` : undefined}
+        >
+          #{tag}
+          {onRemove && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove(tag);
+              }}
+              className="ml-1 text-blue-400 hover:text-blue-700"
+              title="移除标签"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import type { TagEditorProps } from '../types';
+import { TagChips } from './TagChips';
+import { normalizeTags } from '../../utils/tags';
+
+/**
+ * 标签编辑器组件
+ * 输入标签后按回车或逗号添加，输入框为空时按退格移除最后一个标签
+ */
+export const TagEditor: React.FC<TagEditorProps> = ({ tags, onChange, disabled = false, placeholder = '添加标签' }) => {
+  const [input, setInput] = useState('');
+
+  const addTags = () => {
+    const next = normalizeTags([...tags, ...input.split(',')]);
+    setInput('');
+    if (next.length !== tags.length) {
+      onChange(next);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTags();
+    } else if (e.key === 'Backspace' && input === '' && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  if (disabled) {
+    return <TagChips tags={tags} />;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <TagChips tags={tags} onRemove={(tag) => onChange(tags.filter((t) => t !== tag))} />
+      <input
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => input.trim() && addTags()}
+        placeholder={placeholder}
+        className="min-w-[5rem] flex-1 border-none bg-transparent px-1 py-0.5 text-xs text-gray-700 placeholder-gray-400 focus:outline-none"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import { RotateCcw, Tag } from 'lucide-react';
+import type { TagSidebarProps } from '../types';
+
+/**
+ * 标签筛选侧栏组件
+ * 列出所有标签，选中后只显示带有该标签的标签页，并可一次恢复这些标签页
+ */
+export const TagSidebar: React.FC<TagSidebarProps> = ({ tags, selectedTag, onSelect, onRestore }) => {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <aside>
+      <div className="rounded-lg bg-white p-3 shadow-sm">
+        <h3 className="mb-2 flex items-center text-sm font-medium text-gray-700">
+          <Tag className="mr-1 h-4 w-4" />
+          标签
+        </h3>
+        <button
+          onClick={() => onSelect(null)}
+          className={`mb-1 w-full rounded px-2 py-1 text-left text-sm ${
+            selectedTag === null ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-50'
+          }`}
+        >
+          全部
+        </button>
+        {tags.map(({ tag, count }) => (
+          <div
+            key={tag}
+            className={`group flex items-center rounded ${
+              selectedTag === tag ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <button onClick={() => onSelect(tag)} className="min-w-0 flex-1 truncate px-2 py-1 text-left text-sm">
+              #{tag}
+              <span className="ml-1 text-xs text-gray-400">{count}</span>
+            </button>
+            <button
+              onClick={() => onRestore(tag)}
+              className="p-1 text-gray-400 opacity-0 hover:text-blue-600 group-hover:opacity-100"
+              title={`恢复带有标签 #${tag} 的所有标签页`}
+            >
+              <RotateCcw className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+};
@@ -1,14 +1,24 @@
 import React from 'react';
-import type { ToolbarProps } from '../types';
+import type { ToolbarProps, TabFilterType } from '../types';
+import { STALE_TAB_DAYS } from '../../utils/tabActivity';
+
+// 标签页筛选选项
+const FILTER_OPTIONS: { value: TabFilterType; label: string }[] = [
+  { value: 'all', label: '全部标签页' },
+  { value: 'neverReopened', label: '从未重新打开' },
+  { value: 'stale', label: `保存超过 ${STALE_TAB_DAYS} 天` }
+];
 
 /**
  * 工具栏组件
- * 显示统计信息、排序选项和视图切换
+ * 显示统计信息、筛选和排序选项以及视图切换
  */
 export const Toolbar: React.FC<ToolbarProps> = ({ 
   stats, 
   sort, 
   onSortChange, 
+  filter,
+  onFilterChange,
   view, 
   onViewChange 
 }) => {
@@ -25,8 +35,24 @@ export const Toolbar: React.FC<ToolbarProps> = ({
           </div>
         </div>
         
-        {/* 右侧：排序和视图控制 */}
+        {/* 右侧：筛选、排序和视图控制 */}
         <div className="flex items-center space-x-4">
+          {/* 标签页筛选 */}
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-600">筛选：</label>
+            <select
+              value={filter}
+              onChange={(e) => onFilterChange(e.target.value as TabFilterType)}
+              className="text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {FILTER_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
           {/* 排序选择器 */}
           <div className="flex items-center space-x-2">
             <label className="text-sm text-gray-600">排序：</label>
@@ -39,6 +65,8 @@ export const Toolbar: React.FC<ToolbarProps> = ({
               <option value="oldest">最早创建</option>
               <option value="name">名称</option>
               <option value="tabs">标签页数量</option>
+              <option value="lastOpened">最近打开</option>
+              <option value="mostOpened">打开次数</option>
             </select>
           </div>
           
@@ -8,4 +8,13 @@ export { Toolbar } from './Toolbar';
 export { GroupList } from './GroupList';
 export { GroupDetailModal } from './GroupDetailModal';
 export { NewGroupModal } from './NewGroupModal';
-export { SyncSettings } from './SyncSettings';
\ No newline at end of file
+export { SyncSettings } from './SyncSettings';
+export { SessionList } from './SessionList';
+export { RestoreProgress } from './RestoreProgress';
+export { TagChips } from './TagChips';
+export { TagEditor } from './TagEditor';
+export { TagSidebar } from './TagSidebar';
+export { FolderTree } from './FolderTree';
+export { FolderActions } from './FolderActions';
+export { GroupAvatar } from './GroupAvatar';
+export { GroupAppearanceEditor } from './GroupAppearanceEditor';
\ No newline at end of file
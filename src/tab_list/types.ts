@@ -2,14 +2,33 @@
  * 标签页管理相关的类型定义
  */
 
+import type { Folder, GroupColor, GroupIcon, NativeTabGroup } from '../types/background';
+import type { TagCount } from '../utils/tags';
+
 /**
  * 标签页接口
  */
 export interface Tab {
+  /** 标签页在分组中的唯一ID（仅已保存的标签页） */
+  uid?: string;
   id: number;
   url: string;
   title: string;
   favIconUrl?: string;
+  /** 所属原生标签组ID */
+  nativeGroupId?: number;
+  /** 是否为固定标签页 */
+  pinned?: boolean;
+  /** 保存时是否为窗口的活动标签页 */
+  active?: boolean;
+  /** 保存到分组的时间 */
+  addedAt?: string;
+  /** 最后一次重新打开的时间 */
+  lastOpenedAt?: string;
+  /** 重新打开的次数 */
+  openCount?: number;
+  /** 标签 */
+  tags?: string[];
 }
 
 /**
@@ -21,8 +40,25 @@ export interface Group {
   tabs: Tab[];
   createdAt: string;
   locked?: boolean;
+  /** 批次ID（由"聚合所有窗口"产生） */
+  batchId?: number;
+  /** 分组内标签页所属的原生标签组 */
+  nativeGroups?: NativeTabGroup[];
+  /** 标签（对分组内所有标签页生效） */
+  tags?: string[];
+  /** 所属文件夹ID */
+  folderId?: string;
+  /** 颜色 */
+  color?: GroupColor;
+  /** 图标 */
+  icon?: GroupIcon;
 }
 
+/**
+ * 分组外观（颜色和图标）
+ */
+export type GroupAppearance = Pick<Group, 'color' | 'icon'>;
+
 /**
  * 统计信息接口
  */
@@ -36,13 +72,23 @@ export interface Stats {
 /**
  * 排序类型
  */
-export type SortType = 'newest' | 'oldest' | 'name' | 'tabs';
+export type SortType = 'newest' | 'oldest' | 'name' | 'tabs' | 'lastOpened' | 'mostOpened';
+
+/**
+ * 标签页筛选类型：全部、从未重新打开、保存已久
+ */
+export type TabFilterType = 'all' | 'neverReopened' | 'stale';
 
 /**
  * 视图类型
  */
 export type ViewType = 'grid' | 'list';
 
+/**
+ * 页面类型：分组、会话快照
+ */
+export type PageType = 'groups' | 'sessions';
+
 /**
  * 组件Props接口定义
  */
@@ -51,6 +97,8 @@ export type ViewType = 'grid' | 'list';
  * 头部组件属性接口
  */
 export interface HeaderProps {
+  /** 当前搜索词 */
+  searchQuery: string;
   /** 搜索回调函数 */
   onSearch: (query: string) => void;
   /** 新建分组回调函数 */
@@ -71,6 +119,10 @@ export interface ToolbarProps {
   sort: SortType;
   /** 排序方式改变回调 */
   onSortChange: (sort: SortType) => void;
+  /** 当前标签页筛选 */
+  filter: TabFilterType;
+  /** 标签页筛选改变回调 */
+  onFilterChange: (filter: TabFilterType) => void;
   /** 当前视图模式 */
   view: ViewType;
   /** 视图模式改变回调 */
@@ -87,6 +139,10 @@ export interface GroupListProps {
   view: ViewType;
   /** 分组点击回调 */
   onGroupClick: (group: Group) => void;
+  /** 恢复单个标签页回调 */
+  onTabRestore: (group: Group, tabIndex: number) => void;
+  /** 点击标签回调（按该标签筛选） */
+  onTagClick: (tag: string) => void;
 }
 
 /**
@@ -105,8 +161,114 @@ export interface GroupDetailModalProps {
  * 新建分组模态框属性接口
  */
 export interface NewGroupModalProps {
+  /** 已有分组列表（用于添加到已有分组） */
+  groups: Group[];
   /** 关闭回调 */
   onClose: () => void;
   /** 保存回调 */
   onSave: (name: string, tabs: Tab[]) => void;
-}
\ No newline at end of file
+  /** 添加到已有分组回调 */
+  onAppend: (groupId: Group['id'], tabs: Tab[], skipDuplicates: boolean) => void;
+}
+
+/**
+ * 标签列表组件属性接口
+ */
+export interface TagChipsProps {
+  /** 标签列表 */
+  tags: string[];
+  /** 点击标签回调（可选） */
+  onTagClick?: (tag: string) => void;
+  /** 移除标签回调（可选，提供时显示移除按钮） */
+  onRemove?: (tag: string) => void;
+}
+
+/**
+ * 标签编辑器组件属性接口
+ */
+export interface TagEditorProps {
+  /** 当前标签 */
+  tags: string[];
+  /** 标签改变回调 */
+  onChange: (tags: string[]) => void;
+  /** 是否禁用编辑 */
+  disabled?: boolean;
+  /** 输入框占位文字 */
+  placeholder?: string;
+}
+
+/**
+ * 标签筛选侧栏组件属性接口
+ */
+export interface TagSidebarProps {
+  /** 所有标签及其标签页数量 */
+  tags: TagCount[];
+  /** 当前选中的标签 */
+  selectedTag: string | null;
+  /** 选择标签回调，null 表示取消筛选 */
+  onSelect: (tag: string | null) => void;
+  /** 恢复带有该标签的所有标签页回调 */
+  onRestore: (tag: string) => void;
+}
+
+/**
+ * 分组图标组件属性接口
+ */
+export interface GroupAvatarProps {
+  /** 分组（使用名称、颜色和图标） */
+  group: Pick<Group, 'name' | 'color' | 'icon'>;
+  /** 尺寸，默认 md */
+  size?: 'sm' | 'md';
+}
+
+/**
+ * 分组外观编辑器组件属性接口
+ */
+export interface GroupAppearanceEditorProps {
+  /** 当前外观 */
+  appearance: GroupAppearance;
+  /** 外观改变回调 */
+  onChange: (appearance: GroupAppearance) => void;
+  /** 是否禁用编辑 */
+  disabled?: boolean;
+}
+
+/**
+ * 文件夹树组件属性接口
+ */
+export interface FolderTreeProps {
+  /** 文件夹列表 */
+  folders: Folder[];
+  /** 分组列表（用于统计文件夹中的分组数量） */
+  groups: Group[];
+  /** 当前选中的文件夹ID，null 表示全部分组 */
+  selectedFolderId: string | null;
+  /** 选择文件夹回调 */
+  onSelect: (folderId: string | null) => void;
+  /** 新建顶层文件夹回调 */
+  onCreateFolder: () => void;
+  /** 将分组拖放到文件夹回调，folderId 缺失表示根目录 */
+  onMoveGroup: (groupId: string, folderId?: string) => void;
+  /** 将文件夹拖放到其他文件夹回调，parentId 缺失表示根目录 */
+  onMoveFolder: (folderId: string, parentId?: string) => void;
+}
+
+/**
+ * 文件夹操作栏组件属性接口
+ */
+export interface FolderActionsProps {
+  /** 当前文件夹 */
+  folder: Folder;
+  /** 文件夹（含子文件夹）中的分组 */
+  groups: Group[];
+  /** 文件夹或分组发生变化后的回调 */
+  onUpdate: () => void;
+}
+
+/**
+ * 会话快照列表组件属性接口
+ */
+export interface SessionListProps {
+  /** 快照转换为分组后的回调 */
+  onGroupsChanged: () => void;
+}
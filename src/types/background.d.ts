@@ -4,6 +4,8 @@
 
 // 标签页数据结构
 export interface TabData {
+  /** 标签页在分组中的唯一ID（UUID，跨设备保持不变） */
+  uid: string;
   /** 标签页ID（可选，用于关闭标签页） */
   id?: number;
   /** 标签页标题 */
@@ -12,12 +14,63 @@ export interface TabData {
   url: string;
   /** 网站图标URL */
   favIconUrl?: string;
+  /** 所属原生标签组ID（对应分组 nativeGroups 中的 id） */
+  nativeGroupId?: number;
+  /** 在窗口中的位置 */
+  index?: number;
+  /** 是否为固定标签页 */
+  pinned?: boolean;
+  /** 保存时是否为窗口的活动标签页 */
+  active?: boolean;
+  /** 保存到分组的时间（ISO字符串） */
+  addedAt?: string;
+  /** 最后一次从分组中重新打开的时间（ISO字符串） */
+  lastOpenedAt?: string;
+  /** 从分组中重新打开的次数 */
+  openCount?: number;
+  /** 保存该标签页的设备ID */
+  sourceDeviceId?: string;
+  /** 标签（已规范化：小写、不含 #） */
+  tags?: string[];
+  /** 最后一次修改标签的时间（ISO字符串，同步合并时以较晚的修改为准，使删除的标签不会被另一端恢复） */
+  tagsUpdatedAt?: string;
+}
+
+// 原生标签组（chrome.tabGroups）信息
+export interface NativeTabGroup {
+  /** 保存时的原生标签组ID（仅用于在分组内关联标签页） */
+  id: number;
+  /** 标签组标题 */
+  title?: string;
+  /** 标签组颜色 */
+  color?: chrome.tabGroups.Color;
+  /** 是否折叠 */
+  collapsed?: boolean;
+}
+
+// 分组颜色（与原生标签组的颜色一致）
+export type GroupColor = `${chrome.tabGroups.Color}`;
+
+// 分组图标：emoji 或内置的 lucide 图标名称
+export interface GroupIcon {
+  /** 图标类型 */
+  type: 'emoji' | 'lucide';
+  /** emoji 字符或 lucide 图标名称（如 briefcase） */
+  value: string;
+}
+
+// 恢复分组时为标签页创建的原生标签组样式
+export interface NativeGroupStyle {
+  /** 标签组标题 */
+  title: string;
+  /** 标签组颜色 */
+  color: GroupColor;
 }
 
 // 标签页分组数据结构
 export interface TabGroup {
-  /** 分组唯一ID（时间戳） */
-  id: number;
+  /** 分组唯一ID（UUID，跨设备保持不变） */
+  id: string;
   /** 分组名称 */
   name: string;
   /** 创建时间（ISO字符串） */
@@ -28,12 +81,265 @@ export interface TabGroup {
   locked?: boolean;
   /** 分组包含的标签页列表 */
   tabs: TabData[];
+  /** 标签（对分组内所有标签页生效） */
+  tags?: string[];
+  /** 最后一次修改标签的时间（ISO字符串，同步合并时以较晚的修改为准） */
+  tagsUpdatedAt?: string;
+  /** 颜色（恢复时用作原生标签组的颜色） */
+  color?: GroupColor;
+  /** 图标 */
+  icon?: GroupIcon;
+  /** 所属文件夹ID（缺失或文件夹不存在时位于根目录） */
+  folderId?: string;
+  /** 最后一次移动到其他文件夹的时间（ISO字符串，同步合并时以较晚的移动为准） */
+  movedAt?: string;
+  /** 批次ID（同一次"聚合所有窗口"产生的分组共享该ID） */
+  batchId?: number;
+  /** 在批次中对应的窗口序号（从0开始） */
+  windowIndex?: number;
+  /** 来源窗口的布局信息（用于按原窗口布局恢复） */
+  windowLayout?: WindowLayout;
+  /** 分组内标签页所属的原生标签组 */
+  nativeGroups?: NativeTabGroup[];
+  /** 自动归档键（由后台自动归档创建的滚动分组） */
+  autoArchiveKey?: string;
+}
+
+// 文件夹（可包含分组和其他文件夹）
+export interface Folder {
+  /** 文件夹唯一ID（UUID） */
+  id: string;
+  /** 文件夹名称 */
+  name: string;
+  /** 上级文件夹ID（缺失或文件夹不存在时位于根目录） */
+  parentId?: string;
+  /** 创建时间（ISO字符串） */
+  createdAt: string;
+  /** 最后一次移动到其他文件夹的时间（ISO字符串，同步合并时以较晚的移动为准） */
+  movedAt?: string;
+}
+
+// 已删除文件夹的记录（同步合并时防止另一端的副本恢复该文件夹）
+export interface FolderTombstone {
+  /** 文件夹ID */
+  id: string;
+  /** 删除时的上级文件夹ID（其中的内容移到该文件夹，缺失表示根目录） */
+  parentId?: string;
+  /** 删除时间（ISO字符串） */
+  deletedAt: string;
+}
+
+// 窗口布局信息
+export interface WindowLayout {
+  /** 窗口左边距 */
+  left?: number;
+  /** 窗口上边距 */
+  top?: number;
+  /** 窗口宽度 */
+  width?: number;
+  /** 窗口高度 */
+  height?: number;
+  /** 窗口状态 */
+  state?: chrome.windows.WindowState;
+}
+
+// 恢复选项
+export interface RestoreOptions {
+  /** 是否在新窗口中打开 */
+  openInNewWindow?: boolean;
+  /** 新窗口的布局（仅在新窗口中打开时生效） */
+  windowLayout?: WindowLayout;
+  /** 需要重建的原生标签组 */
+  nativeGroups?: NativeTabGroup[];
+  /** 不属于任何原生标签组的标签页恢复后放入该样式的原生标签组（分组设置了颜色时） */
+  groupStyle?: NativeGroupStyle;
+  /** 在指定窗口中打开（不在新窗口中打开时生效，默认当前窗口） */
+  windowId?: number;
+  /** 替换窗口时需要关闭的原标签页（创建第一批标签页后关闭） */
+  replaceTabIds?: number[];
+  /** 已在其他位置打开的标签页的处理方式（未指定时使用用户设置） */
+  dedupe?: RestoreDedupeMode;
+  /** 去重时需要移入目标窗口的已打开标签页（全部标签页创建后移动） */
+  adoptTabIds?: number[];
+  /** 是否延迟加载（只立即加载活动标签页，其余切换到时再加载） */
+  lazy?: boolean;
+}
+
+// 恢复任务（一组在同一窗口中恢复的标签页），记录进度以便分批执行和中断后继续
+export interface RestoreTask {
+  /** 按位置排序后的标签页 */
+  tabs: TabData[];
+  /** 恢复选项 */
+  options: RestoreOptions;
+  /** 下一个要创建的标签页下标 */
+  next: number;
+  /** 标签页所在的窗口ID（创建第一个标签页后记录） */
+  windowId?: number;
+  /** 与 tabs 按下标对应的已创建标签页ID */
+  createdTabIds: (number | null)[];
+}
+
+// 恢复作业状态：排队中、进行中、已完成、已取消、失败
+export type RestoreJobStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+// 恢复作业（在后台分批执行的一次恢复操作）
+export interface RestoreJob {
+  /** 作业ID（UUID） */
+  id: string;
+  /** 显示名称 */
+  label: string;
+  /** 恢复任务，每个任务对应一个窗口 */
+  tasks: RestoreTask[];
+  /** 当前执行的任务下标 */
+  current: number;
+  /** 标签页总数 */
+  total: number;
+  /** 已恢复的标签页数量 */
+  restored: number;
+  /** 作业状态 */
+  status: RestoreJobStatus;
+  /** 失败原因 */
+  error?: string;
+  /** 恢复前去重的结果 */
+  dedupe?: RestoreDedupeSummary;
+}
+
+// 发送给页面的恢复作业进度
+export interface RestoreJobProgress {
+  id: string;
+  label: string;
+  total: number;
+  restored: number;
+  status: RestoreJobStatus;
+  error?: string;
+  dedupe?: RestoreDedupeSummary;
+}
+
+// 后台通过进度端口发送的消息
+export interface RestoreProgressEvent {
+  type: 'jobs';
+  jobs: RestoreJobProgress[];
+}
+
+// 页面通过进度端口发送的取消请求
+export interface RestoreCancelRequest {
+  type: 'cancel';
+  jobId: string;
+}
+
+// 会话快照中的单个窗口
+export interface SnapshotWindow {
+  /** 记录时的窗口ID */
+  windowId: number;
+  /** 窗口标题（活动标签页的标题） */
+  title: string;
+  /** 窗口布局 */
+  layout?: WindowLayout;
+  /** 窗口中的标签页 */
+  tabs: TabData[];
+  /** 标签页所属的原生标签组 */
+  nativeGroups?: NativeTabGroup[];
+}
+
+// 会话快照触发原因：定时记录、窗口关闭
+export type SnapshotReason = 'interval' | 'windowClosed';
+
+// 会话快照（用于崩溃恢复，与分组分开保存）
+export interface SessionSnapshot {
+  /** 快照ID */
+  id: number;
+  /** 记录时间 */
+  createdAt: string;
+  /** 触发原因 */
+  reason: SnapshotReason;
+  /** 记录时打开的窗口 */
+  windows: SnapshotWindow[];
+}
+
+// 可作为恢复目标的窗口
+export interface WindowSummary {
+  /** 窗口ID */
+  id: number;
+  /** 窗口标题（活动标签页的标题） */
+  title: string;
+  /** 标签页数量 */
+  tabCount: number;
+  /** 是否为当前窗口 */
+  focused: boolean;
+}
+
+// 恢复后的移除策略：保留、移除未锁定且未置顶分组中的项、移除所有未锁定分组中的项
+// 锁定的分组在任何策略下都不会被移除
+export type RestoreConsumePolicy = 'keep' | 'removeUnlocked' | 'alwaysRemove';
+
+// 恢复时已打开标签页的处理方式：照常打开、跳过、切换到已打开的标签页、移入目标窗口
+export type RestoreDedupeMode = 'off' | 'skip' | 'focus' | 'move';
+
+// 恢复时去重的结果
+export interface RestoreDedupeSummary {
+  /** 处理方式 */
+  mode: RestoreDedupeMode;
+  /** 已打开而未重新打开的标签页数量 */
+  matched: number;
+}
+
+// 排除规则类型：URL前缀、精确主机名、主机名通配、URL通配、正则表达式
+export type ExcludeRuleType = 'prefix' | 'host' | 'hostWildcard' | 'glob' | 'regex';
+
+// 排除规则
+export interface ExcludeRule {
+  /** 规则ID */
+  id: string;
+  /** 规则类型 */
+  type: ExcludeRuleType;
+  /** 匹配模式 */
+  pattern: string;
+  /** 是否启用 */
+  enabled: boolean;
 }
 
 // 应用设置
 export interface AppSettings {
-  /** 排除列表（不保存的URL前缀） */
+  /** 排除列表（不保存的URL前缀，旧版本设置，未配置 excludeRules 时生效） */
   excludeList: string[];
+  /** 排除规则 */
+  excludeRules?: ExcludeRule[];
+}
+
+// 用户偏好设置（在选项页中编辑，仅保存在本地）
+export interface UserSettings {
+  defaultGroupName: string;
+  theme: 'light' | 'dark' | 'system';
+  language: 'en' | 'zh-CN';
+  aggregateInNewTab: boolean;
+  restoreInNewWindow: boolean;
+  /** 恢复时是否默认延迟加载标签页 */
+  lazyRestore: boolean;
+  /** 恢复后是否从列表中移除已恢复的标签页或分组 */
+  restoreConsumePolicy: RestoreConsumePolicy;
+  /** 恢复时已打开的标签页的处理方式 */
+  restoreDedupeMode: RestoreDedupeMode;
+  showNotifications: boolean;
+  autoLockGroups: boolean;
+  maxGroupsToKeep: number;
+  excludePinnedTabs: boolean;
+  confirmBeforeDelete: boolean;
+  autoBackup: boolean;
+  backupInterval: number;
+  /** 按域名拆分时是否按站点族（可注册域名）合并子域名 */
+  domainSplitBySiteFamily: boolean;
+  /** 按域名拆分时单个分组的最少标签页数量，不足的归入"其他"分组 */
+  domainSplitMinGroupSize: number;
+  /** 是否自动归档闲置标签页 */
+  idleArchiveEnabled: boolean;
+  /** 标签页未被访问多久（分钟）后视为闲置 */
+  idleArchiveMinutes: number;
+  /** 不自动归档的域名（包含其子域名） */
+  idleArchiveAllowlist: string[];
+  /** 是否限制每个窗口的标签页数量 */
+  tabCapEnabled: boolean;
+  /** 每个窗口最多保留的标签页数量，超出部分自动归档 */
+  maxTabsPerWindow: number;
 }
 
 // 元数据结构
@@ -56,6 +362,20 @@ export interface StorageData {
   settings: AppSettings;
   /** 标签页分组列表 */
   groups: TabGroup[];
+  /** 文件夹列表 */
+  folders?: Folder[];
+  /** 已删除的文件夹 */
+  deletedFolders?: FolderTombstone[];
+}
+
+// 数据迁移前的备份
+export interface MigrationBackup {
+  /** 迁移前的数据版本（旧数据可能没有版本号） */
+  version?: string;
+  /** 备份时间 */
+  createdAt: string;
+  /** 迁移前的原始数据 */
+  data: StorageData;
 }
 
 // 统计信息
@@ -70,19 +390,54 @@ export interface Statistics {
   averageTabsPerGroup?: number;
 }
 
+// 添加到已有分组的结果
+export interface AppendResult {
+  /** 新增的标签页数量 */
+  added: number;
+  /** 因重复而跳过的标签页数量 */
+  skipped: number;
+}
+
 // 消息类型定义
 export type MessageAction = 
   | 'aggregateTabs'
+  | 'aggregateAllWindows'
+  | 'aggregateHighlighted'
+  | 'aggregateLeft'
+  | 'aggregateRight'
+  | 'aggregateOthers'
+  | 'aggregateByDomain'
   | 'getData'
   | 'saveData'
   | 'restoreTabs'
+  | 'restoreTab'
+  | 'restoreAndRemove'
+  | 'restoreBatch'
+  | 'getWindows'
   | 'createGroup'
+  | 'appendToGroup'
   | 'updateGroupName'
   | 'toggleGroupLock'
+  | 'updateGroupTags'
+  | 'updateGroupAppearance'
+  | 'updateTabTags'
+  | 'restoreByTag'
+  | 'createFolder'
+  | 'renameFolder'
+  | 'deleteFolder'
+  | 'moveFolder'
+  | 'moveGroup'
+  | 'restoreFolder'
+  | 'setFolderLocked'
   | 'deleteGroup'
   | 'getStatistics'
   | 'exportData'
   | 'importData'
+  | 'updateExcludeRules'
+  | 'getSnapshots'
+  | 'restoreSnapshot'
+  | 'snapshotToGroups'
+  | 'deleteSnapshot'
   | 'clearAllData';
 
 // 消息请求结构
@@ -92,9 +447,25 @@ export interface MessageRequest {
   /** 请求数据（根据不同action类型而变化） */
   data?: any;
   /** 分组ID（用于分组相关操作） */
-  groupId?: number;
+  groupId?: string;
   /** 新名称（用于重命名操作） */
   newName?: string;
+  /** 标签页ID（用于恢复单个标签页、修改单个标签页的标签） */
+  tabUid?: string;
+  /** 标签列表（用于修改标签） */
+  tags?: string[];
+  /** 标签（用于按标签批量操作） */
+  tag?: string;
+  /** 分组颜色（用于修改分组外观，缺失表示清除） */
+  color?: GroupColor;
+  /** 分组图标（用于修改分组外观，缺失表示清除） */
+  icon?: GroupIcon;
+  /** 文件夹ID（用于文件夹操作；移动分组时为目标文件夹，缺失表示根目录） */
+  folderId?: string;
+  /** 上级文件夹ID（用于创建、移动文件夹，缺失表示根目录） */
+  parentId?: string;
+  /** 是否锁定（用于批量锁定、解锁） */
+  locked?: boolean;
   /** 标签页列表（用于恢复和创建操作） */
   tabs?: TabData[];
   /** 分组名称（用于创建操作） */
@@ -103,6 +474,30 @@ export interface MessageRequest {
   format?: 'json' | 'csv';
   /** 是否在新窗口中打开 */
   openInNewWindow?: boolean;
+  /** 恢复到的目标窗口ID（用于恢复操作，未指定时为当前窗口） */
+  windowId?: number;
+  /** 是否替换当前窗口：关闭当前窗口中未固定的标签页后在原处恢复 */
+  replaceCurrentWindow?: boolean;
+  /** 替换当前窗口前是否先将被关闭的标签页保存为分组 */
+  saveReplacedTabs?: boolean;
+  /** 已打开标签页的处理方式（用于恢复操作，未指定时使用用户设置） */
+  dedupe?: RestoreDedupeMode;
+  /** 是否延迟加载（用于恢复操作，未指定时使用用户设置） */
+  lazy?: boolean;
+  /** 恢复时需要重建的原生标签组（用于恢复操作） */
+  nativeGroups?: NativeTabGroup[];
+  /** 批次ID（用于按窗口布局恢复） */
+  batchId?: number;
+  /** 是否跳过分组中已存在的URL（用于添加到已有分组） */
+  skipDuplicates?: boolean;
+  /** 按域名拆分选项（用于按域名聚合，未指定的项使用用户设置） */
+  domainSplit?: Partial<DomainSplitOptions>;
+  /** 排除规则（用于更新排除规则） */
+  excludeRules?: ExcludeRule[];
+  /** 快照ID（用于会话快照操作） */
+  snapshotId?: number;
+  /** 快照中的窗口序号（用于只恢复或转换单个窗口，未指定时处理全部窗口） */
+  windowIndex?: number;
 }
 
 // 消息响应结构
@@ -115,6 +510,17 @@ export interface MessageResponse {
   error?: string;
 }
 
+// 按域名拆分的选项
+export interface DomainSplitOptions {
+  /** 是否按站点族（可注册域名）合并子域名 */
+  bySiteFamily: boolean;
+  /** 单个分组的最少标签页数量 */
+  minGroupSize: number;
+}
+
+// 聚合范围：整个窗口、选中的标签页、活动标签页左侧/右侧、除活动标签页外的全部
+export type AggregateScope = 'all' | 'highlighted' | 'left' | 'right' | 'others';
+
 // 导出格式类型
 export type ExportFormat = 'json' | 'csv';
 
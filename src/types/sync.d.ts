@@ -64,6 +64,8 @@ export interface SyncResult {
 export interface SyncData {
   /** 数据版本 */
   version: string;
+  /** 数据结构版本（旧版本上传的数据没有该字段） */
+  schemaVersion?: string;
   /** 同步时间戳 */
   timestamp: string;
   /** 设备信息 */
@@ -77,6 +79,10 @@ export interface SyncData {
   data: {
     groups: any[];
     settings: any;
+    /** 文件夹列表（旧版本上传的数据没有该字段） */
+    folders?: any[];
+    /** 已删除的文件夹（旧版本上传的数据没有该字段） */
+    deletedFolders?: any[];
   };
 }
 
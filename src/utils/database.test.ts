@@ -0,0 +1,66 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import type { StorageData, TabGroup } from '../types/background.js';
+import { findTabsByUrl, readData, writeData } from './database.js';
+
+/** 创建分组 */
+function group(id: string, urls: string[]): TabGroup {
+  return {
+    id,
+    name: id,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    tabs: urls.map((url, index) => ({ uid: `${id}-${index}`, title: url, url }))
+  };
+}
+
+/** 创建存储数据 */
+function storageData(groups: TabGroup[]): StorageData {
+  return {
+    version: '1.3.0',
+    metadata: { lastModified: '2024-01-01T00:00:00.000Z', lastSyncTimestamp: '', deviceId: 'device' },
+    settings: { excludeList: ['chrome://'] },
+    groups,
+    folders: [{ id: 'folder', name: '文件夹', createdAt: '2024-01-01T00:00:00.000Z' }],
+    deletedFolders: []
+  };
+}
+
+describe('database', () => {
+  // 各用例共用同一个数据库，按顺序执行
+  it('数据库中还没有数据时返回 undefined', async () => {
+    expect(await readData()).toBeUndefined();
+  });
+
+  it('保存后读取得到相同的数据', async () => {
+    const data = storageData([group('a', ['https://a.com/1', 'https://a.com/2']), group('b', ['https://b.com'])]);
+
+    await writeData(data);
+
+    expect(await readData()).toEqual(data);
+  });
+
+  it('保存调整顺序、修改和删除后的分组', async () => {
+    const changed = { ...group('a', ['https://a.com/1']), name: '已修改' };
+    const data = storageData([group('c', ['https://c.com']), changed]);
+
+    await writeData(storageData([group('b', ['https://b.com']), group('a', ['https://a.com/1', 'https://a.com/2'])]));
+    await writeData(data);
+
+    expect(await readData()).toEqual(data);
+  });
+
+  it('只调整顺序的分组保留其标签页', async () => {
+    const data = storageData([group('a', ['https://a.com/1']), group('c', ['https://c.com'])]);
+
+    await writeData(storageData([group('c', ['https://c.com']), group('a', ['https://a.com/1'])]));
+    await writeData(data);
+
+    expect(await readData()).toEqual(data);
+  });
+
+  it('按网址查找已保存的标签页', async () => {
+    const matches = await findTabsByUrl('https://c.com');
+
+    expect(matches).toEqual([{ groupId: 'c', position: 0, tab: group('c', ['https://c.com']).tabs[0] }]);
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * IndexedDB 数据库
+ * 分组和标签页分别按记录保存，保存数据时只重写内容发生变化的分组
+ *
+ * 对象仓库：
+ * - meta：数据版本、元数据、应用设置和文件夹；迁移前的数据备份
+ * - groups：分组（不含标签页），按 createdAt 建立索引
+ * - tabs：标签页，主键为 [分组ID, 位置]，按 url、domain 建立索引
+ */
+
+import type {
+  AppSettings,
+  DataMetadata,
+  Folder,
+  FolderTombstone,
+  MigrationBackup,
+  StorageData,
+  TabData,
+  TabGroup
+} from '../types/background.js';
+
+/** 数据库名称 */
+const DB_NAME = 'uni-tab';
+
+/** 数据库版本，修改对象仓库或索引时递增 */
+const DB_VERSION = 1;
+
+/** 对象仓库名称 */
+const META_STORE = 'meta';
+const GROUP_STORE = 'groups';
+const TAB_STORE = 'tabs';
+
+/** 元数据记录的主键 */
+const ROOT_KEY = 'root';
+
+/** 迁移前数据备份记录的主键 */
+const BACKUP_KEY = 'migrationBackup';
+
+/**
+ * 元数据记录
+ */
+interface MetaRecord {
+  key: string;
+  version: string;
+  metadata: DataMetadata;
+  settings: AppSettings;
+  /** 文件夹（数量较少，随元数据一起保存） */
+  folders?: Folder[];
+  /** 已删除的文件夹 */
+  deletedFolders?: FolderTombstone[];
+}
+
+/**
+ * 迁移前数据备份记录
+ */
+interface BackupRecord {
+  key: string;
+  backup: MigrationBackup;
+}
+
+/**
+ * 分组记录
+ */
+interface GroupRecord {
+  id: string;
+  /** 分组在列表中的位置 */
+  order: number;
+  createdAt: string;
+  /** 分组内容（含标签页）的 SHA-256 摘要，用于判断标签页是否需要重写 */
+  fingerprint: string;
+  group: Omit<TabGroup, 'tabs'>;
+}
+
+/**
+ * 标签页记录
+ */
+interface TabRecord {
+  groupId: string;
+  /** 标签页在分组中的位置 */
+  position: number;
+  url: string;
+  domain: string;
+  tab: TabData;
+}
+
+/**
+ * 已保存标签页的查询结果
+ */
+export interface SavedTabMatch {
+  /** 所属分组ID */
+  groupId: string;
+  /** 标签页在分组中的位置 */
+  position: number;
+  /** 标签页 */
+  tab: TabData;
+}
+
+/** 数据库连接（每个页面或 Service Worker 只打开一次） */
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * 将 IndexedDB 请求包装为 Promise
+ * @param request 请求
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 等待事务完成
+ * @param transaction 事务
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * 打开数据库，首次打开时创建对象仓库和索引
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(META_STORE, { keyPath: 'key' });
+
+      const groupStore = db.createObjectStore(GROUP_STORE, { keyPath: 'id' });
+      groupStore.createIndex('createdAt', 'createdAt');
+
+      const tabStore = db.createObjectStore(TAB_STORE, { keyPath: ['groupId', 'position'] });
+      tabStore.createIndex('url', 'url');
+      tabStore.createIndex('domain', 'domain');
+    };
+
+    databasePromise = requestToPromise(request).catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * 获取网址的主机名
+ * @param url 网址
+ */
+function getDomain(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * 计算分组内容（含标签页）的摘要
+ * @param group 分组
+ * @returns 十六进制的 SHA-256 摘要
+ */
+async function getGroupFingerprint(group: TabGroup): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(group)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * 分组下所有标签页记录的主键范围
+ * @param groupId 分组ID
+ */
+function groupTabRange(groupId: string): IDBKeyRange {
+  // 数组在 IndexedDB 键排序中大于任何数字，[groupId, []] 覆盖该分组的所有位置
+  return IDBKeyRange.bound([groupId], [groupId, []]);
+}
+
+/**
+ * 读取全部数据
+ * @returns 存储数据，数据库中还没有数据时返回 undefined
+ */
+export async function readData(): Promise<StorageData | undefined> {
+  const db = await openDatabase();
+  const transaction = db.transaction([META_STORE, GROUP_STORE, TAB_STORE], 'readonly');
+
+  const [root, groupRecords, tabRecords] = await Promise.all([
+    requestToPromise<MetaRecord | undefined>(transaction.objectStore(META_STORE).get(ROOT_KEY)),
+    requestToPromise<GroupRecord[]>(transaction.objectStore(GROUP_STORE).getAll()),
+    requestToPromise<TabRecord[]>(transaction.objectStore(TAB_STORE).getAll())
+  ]);
+
+  if (!root) {
+    return undefined;
+  }
+
+  // 标签页记录按 [分组ID, 位置] 排序返回
+  const tabsByGroup = new Map<string, TabData[]>();
+  for (const record of tabRecords) {
+    const tabs = tabsByGroup.get(record.groupId) || [];
+    tabs.push(record.tab);
+    tabsByGroup.set(record.groupId, tabs);
+  }
+
+  return {
+    version: root.version,
+    metadata: root.metadata,
+    settings: root.settings,
+    folders: root.folders || [],
+    deletedFolders: root.deletedFolders || [],
+    groups: groupRecords
+      .sort((a, b) => a.order - b.order)
+      .map((record) => ({ ...record.group, tabs: tabsByGroup.get(record.id) || [] }))
+  };
+}
+
+/**
+ * 只读取应用设置，不读取分组和标签页
+ * @returns 应用设置，数据库中还没有数据时返回 undefined
+ */
+export async function readSettings(): Promise<AppSettings | undefined> {
+  const db = await openDatabase();
+  const store = db.transaction(META_STORE, 'readonly').objectStore(META_STORE);
+  const root = await requestToPromise<MetaRecord | undefined>(store.get(ROOT_KEY));
+  return root?.settings;
+}
+
+/**
+ * 保存全部数据
+ * 只重写内容发生变化的分组的标签页，删除已不存在的分组
+ * @param data 存储数据
+ */
+export async function writeData(data: StorageData): Promise<void> {
+  const db = await openDatabase();
+  // 事务在等待其他异步操作时会自动提交，摘要需在开启事务前算好
+  const fingerprints = await Promise.all(data.groups.map(getGroupFingerprint));
+  const transaction = db.transaction([META_STORE, GROUP_STORE, TAB_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const metaStore = transaction.objectStore(META_STORE);
+  const groupStore = transaction.objectStore(GROUP_STORE);
+  const tabStore = transaction.objectStore(TAB_STORE);
+
+  const existing = new Map(
+    (await requestToPromise<GroupRecord[]>(groupStore.getAll())).map((record) => [record.id, record])
+  );
+
+  const root: MetaRecord = {
+    key: ROOT_KEY,
+    version: data.version,
+    metadata: data.metadata,
+    settings: data.settings,
+    folders: data.folders || [],
+    deletedFolders: data.deletedFolders || []
+  };
+  metaStore.put(root);
+
+  data.groups.forEach((group, order) => {
+    const { tabs, ...groupFields } = group;
+    const fingerprint = fingerprints[order];
+    const previous = existing.get(group.id);
+    existing.delete(group.id);
+
+    if (previous?.fingerprint === fingerprint) {
+      // 内容未变化，仅在位置变化时更新分组记录
+      if (previous.order !== order) {
+        groupStore.put({ ...previous, order });
+      }
+      return;
+    }
+
+    const record: GroupRecord = { id: group.id, order, createdAt: group.createdAt, fingerprint, group: groupFields };
+    groupStore.put(record);
+    tabStore.delete(groupTabRange(group.id));
+    tabs.forEach((tab, position) => {
+      const tabRecord: TabRecord = { groupId: group.id, position, url: tab.url, domain: getDomain(tab.url), tab };
+      tabStore.put(tabRecord);
+    });
+  });
+
+  // 剩余的是已删除的分组
+  existing.forEach((_, groupId) => {
+    groupStore.delete(groupId);
+    tabStore.delete(groupTabRange(groupId));
+  });
+
+  await done;
+}
+
+/**
+ * 按网址查找已保存的标签页
+ * @param url 网址（完全匹配）
+ * @returns 匹配的标签页
+ */
+export async function findTabsByUrl(url: string): Promise<SavedTabMatch[]> {
+  const db = await openDatabase();
+  const index = db.transaction(TAB_STORE, 'readonly').objectStore(TAB_STORE).index('url');
+  const records = await requestToPromise<TabRecord[]>(index.getAll(url));
+  return records.map((record) => ({ groupId: record.groupId, position: record.position, tab: record.tab }));
+}
+
+/**
+ * 保存迁移前的数据备份（覆盖之前的备份）
+ * @param backup 备份
+ */
+export async function writeMigrationBackup(backup: MigrationBackup): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  const record: BackupRecord = { key: BACKUP_KEY, backup };
+  transaction.objectStore(META_STORE).put(record);
+  await transactionDone(transaction);
+}
+
+/**
+ * 读取迁移前的数据备份
+ * @returns 备份，没有备份时返回 undefined
+ */
+export async function readMigrationBackup(): Promise<MigrationBackup | undefined> {
+  const db = await openDatabase();
+  const store = db.transaction(META_STORE, 'readonly').objectStore(META_STORE);
+  const record = await requestToPromise<BackupRecord | undefined>(store.get(BACKUP_KEY));
+  return record?.backup;
+}
+
+/**
+ * 删除迁移前的数据备份
+ */
+export async function deleteMigrationBackup(): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  transaction.objectStore(META_STORE).delete(BACKUP_KEY);
+  await transactionDone(transaction);
+}
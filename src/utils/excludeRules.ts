@@ -0,0 +1,161 @@
+/**
+ * 排除规则引擎
+ * 根据用户配置的规则判断 URL 是否不应被保存
+ */
+
+import type { AppSettings, ExcludeRule, ExcludeRuleType } from '../types/background.js';
+
+/** 规则类型的显示名称 */
+export const EXCLUDE_RULE_TYPE_LABELS: Record<ExcludeRuleType, string> = {
+  prefix: 'URL 前缀',
+  host: '精确主机名',
+  hostWildcard: '主机名通配',
+  glob: 'URL 通配',
+  regex: '正则表达式'
+};
+
+/**
+ * 生成规则ID
+ * @returns 规则ID
+ */
+export function generateRuleId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 8);
+  return `rule_${timestamp}_${random}`;
+}
+
+/**
+ * 创建一条排除规则
+ * @param type 规则类型
+ * @param pattern 匹配模式
+ * @returns 新规则（默认启用）
+ */
+export function createExcludeRule(type: ExcludeRuleType, pattern: string): ExcludeRule {
+  return { id: generateRuleId(), type, pattern, enabled: true };
+}
+
+/**
+ * 获取设置中生效的排除规则
+ * 旧版本只有 excludeList（URL 前缀），此时将其转换为前缀规则
+ * @param settings 应用设置
+ * @returns 排除规则列表
+ */
+export function getExcludeRules(settings: AppSettings): ExcludeRule[] {
+  if (settings.excludeRules) {
+    return settings.excludeRules;
+  }
+  return (settings.excludeList || []).map((prefix) => createExcludeRule('prefix', prefix));
+}
+
+/**
+ * 将通配符模式转换为正则表达式
+ * `*` 匹配任意字符，`?` 匹配单个字符
+ * @param pattern 通配符模式
+ * @returns 完整匹配的正则表达式
+ */
+function wildcardToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') {
+        return '.*';
+      }
+      if (char === '?') {
+        return '.';
+      }
+      return char.replace(/[.+^${}()|[\]\\/]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * 获取URL的主机名
+ * @param url URL
+ * @returns 主机名，无效URL返回 null
+ */
+function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 检查规则的模式是否有效
+ * @param rule 排除规则
+ * @returns 错误信息，有效时返回 null
+ */
+export function validateExcludeRule(rule: ExcludeRule): string | null {
+  if (!rule.pattern.trim()) {
+    return '匹配模式不能为空';
+  }
+
+  if (rule.type === 'regex') {
+    try {
+      new RegExp(rule.pattern);
+    } catch {
+      return `无效的正则表达式: ${rule.pattern}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 检查URL是否匹配单条规则
+ * @param url 要检查的URL
+ * @param rule 排除规则
+ * @returns 是否匹配
+ */
+export function matchesExcludeRule(url: string, rule: ExcludeRule): boolean {
+  const pattern = rule.pattern.trim();
+  if (!pattern) {
+    return false;
+  }
+
+  switch (rule.type) {
+    case 'prefix':
+      return url.startsWith(pattern);
+
+    case 'host':
+      return getHostname(url) === pattern.toLowerCase();
+
+    case 'hostWildcard': {
+      const hostname = getHostname(url);
+      if (!hostname) {
+        return false;
+      }
+      // *.example.com 同时匹配 example.com 本身
+      const lowerPattern = pattern.toLowerCase();
+      if (lowerPattern.startsWith('*.') && hostname === lowerPattern.substring(2)) {
+        return true;
+      }
+      return wildcardToRegExp(lowerPattern).test(hostname);
+    }
+
+    case 'glob':
+      return wildcardToRegExp(pattern).test(url);
+
+    case 'regex':
+      try {
+        return new RegExp(pattern, 'i').test(url);
+      } catch {
+        return false;
+      }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * 检查URL是否被任一启用的规则排除
+ * @param url 要检查的URL
+ * @param rules 排除规则列表
+ * @returns 是否应该排除
+ */
+export function shouldExcludeUrl(url: string, rules: ExcludeRule[]): boolean {
+  return rules.some((rule) => rule.enabled && matchesExcludeRule(url, rule));
+}
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Folder, FolderTombstone } from '../types/background.js';
+import {
+  mergeFolderTombstones,
+  mergeFolders,
+  moveGroupsFromDeletedFolders,
+  normalizeFolders,
+  pruneFolderTombstones
+} from './folders.js';
+
+/** 创建文件夹 */
+function folder(id: string, parentId?: string, movedAt?: string): Folder {
+  return { id, name: id, parentId, createdAt: '2024-01-01T00:00:00.000Z', movedAt };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('mergeFolders', () => {
+  it('按ID取并集，上级文件夹以较晚的移动为准', () => {
+    const primary = [folder('a'), folder('b', 'a', '2024-01-01T00:00:00.000Z')];
+    const secondary = [folder('b', undefined, '2024-01-02T00:00:00.000Z'), folder('c')];
+
+    const merged = mergeFolders(primary, secondary);
+
+    expect(merged.map((item) => item.id)).toEqual(['a', 'b', 'c']);
+    expect(merged.find((item) => item.id === 'b')?.parentId).toBeUndefined();
+  });
+
+  it('已删除的文件夹不会被另一端的副本恢复，其子文件夹移到上级文件夹', () => {
+    const deleted: FolderTombstone[] = [{ id: 'b', parentId: 'a', deletedAt: new Date().toISOString() }];
+
+    const merged = mergeFolders([folder('a')], [folder('a'), folder('b', 'a'), folder('c', 'b')], deleted);
+
+    expect(merged.map((item) => [item.id, item.parentId])).toEqual([
+      ['a', undefined],
+      ['c', 'a']
+    ]);
+  });
+
+  it('两台设备互相移动形成循环时移到根目录', () => {
+    const merged = normalizeFolders([folder('a', 'b'), folder('b', 'a')]);
+
+    expect(merged.some((item) => item.parentId === undefined)).toBe(true);
+  });
+});
+
+describe('moveGroupsFromDeletedFolders', () => {
+  it('沿删除记录将分组移到未删除的上级文件夹', () => {
+    const deleted: FolderTombstone[] = [
+      { id: 'c', parentId: 'b', deletedAt: '2024-01-01T00:00:00.000Z' },
+      { id: 'b', parentId: 'a', deletedAt: '2024-01-01T00:00:00.000Z' }
+    ];
+
+    expect(moveGroupsFromDeletedFolders([{ folderId: 'c' }], deleted)).toEqual([{ folderId: 'a' }]);
+  });
+});
+
+describe('folder tombstones', () => {
+  it('合并时按ID取并集', () => {
+    const now = new Date().toISOString();
+    const merged = mergeFolderTombstones(
+      [{ id: 'a', deletedAt: now }],
+      [
+        { id: 'a', deletedAt: now },
+        { id: 'b', deletedAt: now }
+      ]
+    );
+
+    expect(merged.map((tombstone) => tombstone.id)).toEqual(['a', 'b']);
+  });
+
+  it('移除超过 30 天的删除记录', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-01T00:00:00.000Z'));
+
+    const pruned = pruneFolderTombstones([
+      { id: 'old', deletedAt: '2024-01-15T00:00:00.000Z' },
+      { id: 'recent', deletedAt: '2024-02-15T00:00:00.000Z' }
+    ]);
+
+    expect(pruned.map((tombstone) => tombstone.id)).toEqual(['recent']);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * 文件夹
+ * 文件夹通过 parentId 嵌套，分组通过 folderId 归属文件夹
+ * parentId、folderId 缺失或指向不存在的文件夹时位于根目录
+ * 删除的文件夹记录在 deletedFolders 中，同步合并时不会被另一端的副本恢复；
+ * 删除记录保留 FOLDER_TOMBSTONE_DAYS 天，超过该时间仍未同步的设备可能恢复已删除的文件夹
+ */
+
+import type { Folder, FolderTombstone, TabGroup } from '../types/background.js';
+
+/** 参与移动合并的字段 */
+type FolderPlacement = Pick<TabGroup, 'folderId' | 'movedAt'>;
+
+/** 文件夹删除记录的保留天数 */
+const FOLDER_TOMBSTONE_DAYS = 30;
+
+/**
+ * 获取文件夹及其所有子孙文件夹的ID
+ * @param folders 文件夹列表
+ * @param folderId 文件夹ID
+ */
+export function getFolderTreeIds(folders: Folder[], folderId: string): Set<string> {
+  const ids = new Set<string>([folderId]);
+  let added = true;
+
+  // 逐层加入上级已在集合中的文件夹，直到没有新文件夹加入
+  while (added) {
+    added = false;
+    for (const folder of folders) {
+      if (folder.parentId && ids.has(folder.parentId) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        added = true;
+      }
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * 获取文件夹（含子孙文件夹）中的所有分组
+ * @param groups 分组列表
+ * @param folders 文件夹列表
+ * @param folderId 文件夹ID
+ */
+export function getFolderGroups<T extends Pick<TabGroup, 'folderId'>>(
+  groups: T[],
+  folders: Folder[],
+  folderId: string
+): T[] {
+  const ids = getFolderTreeIds(folders, folderId);
+  return groups.filter((group) => group.folderId !== undefined && ids.has(group.folderId));
+}
+
+/**
+ * 检查文件夹能否移动到指定的上级文件夹下
+ * 目标不能是文件夹自身或其子孙文件夹
+ * @param folders 文件夹列表
+ * @param folderId 要移动的文件夹ID
+ * @param parentId 目标上级文件夹ID（缺失表示根目录）
+ */
+export function canMoveFolder(folders: Folder[], folderId: string, parentId?: string): boolean {
+  if (parentId === undefined) {
+    return true;
+  }
+  return folders.some((folder) => folder.id === parentId) && !getFolderTreeIds(folders, folderId).has(parentId);
+}
+
+/**
+ * 获取文件夹ID对应的未删除文件夹
+ * 文件夹已删除时沿删除记录找到其内容移到的上级文件夹
+ * @param folderId 文件夹ID（缺失表示根目录）
+ * @param deletedFolders 已删除的文件夹
+ * @returns 未删除的文件夹ID，缺失表示根目录
+ */
+export function getLiveFolderId(folderId: string | undefined, deletedFolders: FolderTombstone[]): string | undefined {
+  const deletedById = new Map(deletedFolders.map((tombstone) => [tombstone.id, tombstone]));
+  const visited = new Set<string>();
+  let liveId = folderId;
+
+  while (liveId !== undefined && deletedById.has(liveId)) {
+    if (visited.has(liveId)) {
+      return undefined;
+    }
+    visited.add(liveId);
+    liveId = deletedById.get(liveId)?.parentId;
+  }
+
+  return liveId;
+}
+
+/**
+ * 将位于已删除文件夹中的分组移到未删除的上级文件夹
+ * @param groups 分组列表
+ * @param deletedFolders 已删除的文件夹
+ * @returns 新的分组列表，未移动的分组保持原对象
+ */
+export function moveGroupsFromDeletedFolders<T extends FolderPlacement>(
+  groups: T[],
+  deletedFolders: FolderTombstone[]
+): T[] {
+  return groups.map((group) => {
+    const folderId = getLiveFolderId(group.folderId, deletedFolders);
+    return folderId === group.folderId ? group : { ...group, folderId };
+  });
+}
+
+/**
+ * 移除超过保留天数的文件夹删除记录
+ * @param deletedFolders 已删除的文件夹
+ * @returns 仍在保留期内的删除记录
+ */
+export function pruneFolderTombstones(deletedFolders: FolderTombstone[]): FolderTombstone[] {
+  const expiresAt = Date.now() - FOLDER_TOMBSTONE_DAYS * 24 * 60 * 60 * 1000;
+  return deletedFolders.filter((tombstone) => Date.parse(tombstone.deletedAt) > expiresAt);
+}
+
+/**
+ * 合并两端的文件夹删除记录，按ID取并集并移除超过保留天数的记录
+ * @param a 一端的删除记录
+ * @param b 另一端的删除记录
+ */
+export function mergeFolderTombstones(a: FolderTombstone[] = [], b: FolderTombstone[] = []): FolderTombstone[] {
+  const merged = new Map(a.map((tombstone) => [tombstone.id, tombstone]));
+  for (const tombstone of b) {
+    if (!merged.has(tombstone.id)) {
+      merged.set(tombstone.id, tombstone);
+    }
+  }
+  return pruneFolderTombstones([...merged.values()]);
+}
+
+/**
+ * 修正文件夹层级
+ * 移除已删除的文件夹，其子文件夹移到未删除的上级文件夹；
+ * 上级文件夹不存在或形成循环（如两台设备同时互相移动）的文件夹移到根目录
+ * @param folders 文件夹列表
+ * @param deletedFolders 已删除的文件夹
+ * @returns 修正后的新列表
+ */
+export function normalizeFolders(folders: Folder[], deletedFolders: FolderTombstone[] = []): Folder[] {
+  const deletedIds = new Set(deletedFolders.map((tombstone) => tombstone.id));
+  const byId = new Map(
+    folders
+      .filter((folder) => !deletedIds.has(folder.id))
+      .map((folder) => [folder.id, { ...folder, parentId: getLiveFolderId(folder.parentId, deletedFolders) }])
+  );
+
+  for (const folder of byId.values()) {
+    if (folder.parentId !== undefined && !byId.has(folder.parentId)) {
+      folder.parentId = undefined;
+    }
+  }
+
+  for (const folder of byId.values()) {
+    const visited = new Set<string>();
+    let parentId = folder.parentId;
+    while (parentId !== undefined && !visited.has(parentId)) {
+      if (parentId === folder.id) {
+        folder.parentId = undefined;
+        break;
+      }
+      visited.add(parentId);
+      parentId = byId.get(parentId)?.parentId;
+    }
+  }
+
+  return [...byId.values()];
+}
+
+/**
+ * 比较两端的移动时间
+ * @param a 一端的数据
+ * @param b 另一端的数据
+ * @returns b 移动得更晚时为 true
+ */
+function isMovedLater(a: Pick<Folder, 'movedAt'>, b: Pick<Folder, 'movedAt'>): boolean {
+  // 从未移动过的视为最早
+  const timeA = a.movedAt ? Date.parse(a.movedAt) || 0 : 0;
+  const timeB = b.movedAt ? Date.parse(b.movedAt) || 0 : 0;
+  return timeB > timeA;
+}
+
+/**
+ * 合并两端同一分组的所属文件夹，以较晚的移动为准
+ * @param local 本地分组
+ * @param remote 远程分组
+ */
+export function mergeGroupPlacement(local: FolderPlacement, remote: FolderPlacement): FolderPlacement {
+  const latest = isMovedLater(local, remote) ? remote : local;
+  return { folderId: latest.folderId, movedAt: latest.movedAt };
+}
+
+/**
+ * 合并两端的文件夹列表
+ * 按ID取并集并去掉已删除的文件夹；两端都有的文件夹以 primary 为准，上级文件夹以较晚的移动为准
+ * @param primary 优先使用的文件夹列表
+ * @param secondary 另一端的文件夹列表
+ * @param deletedFolders 两端合并后的删除记录
+ * @returns 合并并修正层级后的文件夹列表
+ */
+export function mergeFolders(primary: Folder[], secondary: Folder[], deletedFolders: FolderTombstone[] = []): Folder[] {
+  const merged = new Map(primary.map((folder) => [folder.id, folder]));
+
+  for (const folder of secondary) {
+    const existing = merged.get(folder.id);
+    if (!existing) {
+      merged.set(folder.id, folder);
+    } else if (isMovedLater(existing, folder)) {
+      merged.set(folder.id, { ...existing, parentId: folder.parentId, movedAt: folder.movedAt });
+    }
+  }
+
+  return normalizeFolders([...merged.values()], deletedFolders);
+}
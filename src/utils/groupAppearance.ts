@@ -0,0 +1,138 @@
+/**
+ * 分组外观
+ * 分组可以设置颜色和图标（emoji 或内置的 lucide 图标），颜色取自原生标签组的颜色，恢复时用于原生标签组
+ */
+
+import type { GroupColor, GroupIcon, NativeGroupStyle, TabGroup } from '../types/background.js';
+
+/** 参与外观设置的分组字段 */
+type GroupAppearance = Pick<TabGroup, 'color' | 'icon'>;
+
+/** 可选的分组颜色（与原生标签组颜色的顺序一致） */
+export const GROUP_COLORS: GroupColor[] = [
+  'grey',
+  'blue',
+  'red',
+  'yellow',
+  'green',
+  'pink',
+  'purple',
+  'cyan',
+  'orange'
+];
+
+/** 分组颜色的名称 */
+export const GROUP_COLOR_LABELS: Record<GroupColor, string> = {
+  grey: '灰色',
+  blue: '蓝色',
+  red: '红色',
+  yellow: '黄色',
+  green: '绿色',
+  pink: '粉色',
+  purple: '紫色',
+  cyan: '青色',
+  orange: '橙色'
+};
+
+/** 分组颜色在页面中显示的色值（接近浏览器中原生标签组的颜色） */
+export const GROUP_COLOR_HEX: Record<GroupColor, string> = {
+  grey: '#5f6368',
+  blue: '#1a73e8',
+  red: '#d93025',
+  yellow: '#f9ab00',
+  green: '#1e8e3e',
+  pink: '#d01884',
+  purple: '#9334e6',
+  cyan: '#007b83',
+  orange: '#fa903e'
+};
+
+/** 可选的 lucide 图标名称 */
+export const GROUP_ICON_NAMES = [
+  'briefcase',
+  'book-open',
+  'code',
+  'globe',
+  'music',
+  'film',
+  'shopping-cart',
+  'newspaper',
+  'plane',
+  'gamepad-2',
+  'heart',
+  'star'
+] as const;
+
+/** lucide 图标名称 */
+export type GroupIconName = (typeof GROUP_ICON_NAMES)[number];
+
+/** emoji 图标的最大长度（组合 emoji 由多个字符组成） */
+const MAX_EMOJI_LENGTH = 16;
+
+/**
+ * 检查是否为可选的分组颜色
+ * @param color 颜色
+ */
+export function isGroupColor(color: unknown): color is GroupColor {
+  return GROUP_COLORS.includes(color as GroupColor);
+}
+
+/**
+ * 检查是否为可选的 lucide 图标名称
+ * @param name 图标名称
+ */
+export function isGroupIconName(name: string): name is GroupIconName {
+  return (GROUP_ICON_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * 规范化分组图标
+ * @param icon 图标（可能来自导入或同步的数据）
+ * @returns 有效的图标，无效时返回 undefined
+ */
+export function normalizeGroupIcon(icon?: GroupIcon): GroupIcon | undefined {
+  const value = typeof icon?.value === 'string' ? icon.value.trim() : '';
+  if (icon?.type === 'emoji' && value && value.length <= MAX_EMOJI_LENGTH) {
+    return { type: 'emoji', value };
+  }
+  if (icon?.type === 'lucide' && isGroupIconName(value)) {
+    return { type: 'lucide', value };
+  }
+  return undefined;
+}
+
+/**
+ * 规范化分组外观，移除无效的颜色和图标
+ * @param appearance 颜色和图标
+ */
+export function normalizeGroupAppearance(appearance: GroupAppearance): GroupAppearance {
+  return {
+    color: isGroupColor(appearance.color) ? appearance.color : undefined,
+    icon: normalizeGroupIcon(appearance.icon)
+  };
+}
+
+/**
+ * 获取恢复分组时使用的原生标签组样式
+ * 只有设置了颜色的分组才会放入原生标签组，标题前加上 emoji 图标
+ * @param group 分组
+ * @returns 原生标签组样式，分组没有颜色时返回 undefined
+ */
+export function getNativeGroupStyle(group: Pick<TabGroup, 'name' | 'color' | 'icon'>): NativeGroupStyle | undefined {
+  if (!isGroupColor(group.color)) {
+    return undefined;
+  }
+  const title = group.icon?.type === 'emoji' ? `${group.icon.value} ${group.name}` : group.name;
+  return { title, color: group.color };
+}
+
+/**
+ * 将分组图标转换为文本（用于 CSV 导出），lucide 图标写作 lucide:名称
+ * @param icon 图标
+ */
+export function formatGroupIcon(icon?: GroupIcon): string {
+  if (!icon) {
+    return '';
+  }
+  return icon.type === 'emoji' ? icon.value : `lucide:${icon.value}`;
+}
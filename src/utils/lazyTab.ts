@@ -0,0 +1,53 @@
+/**
+ * 延迟加载占位页
+ * 延迟恢复时除需要立即显示的标签页外，其余标签页先打开占位页，切换到该标签页时才加载原网址
+ */
+
+import type { TabData } from '../types/background.js';
+
+/** 占位页文件名 */
+export const LAZY_TAB_PAGE = 'lazy_tab.html';
+
+/** 占位页中保存的原标签页信息 */
+export interface LazyTabInfo {
+  url: string;
+  title: string;
+  favIconUrl?: string;
+}
+
+/**
+ * 生成标签页对应的占位页地址
+ * @param tab 要延迟加载的标签页
+ * @returns 占位页地址
+ */
+export function buildLazyTabUrl(tab: TabData): string {
+  const params = new URLSearchParams({ url: tab.url, title: tab.title });
+  if (tab.favIconUrl) {
+    params.set('favIconUrl', tab.favIconUrl);
+  }
+  return `${chrome.runtime.getURL(LAZY_TAB_PAGE)}?${params.toString()}`;
+}
+
+/**
+ * 从占位页地址中解析原标签页信息
+ * @param url 标签页地址
+ * @returns 原标签页信息，不是占位页时返回 null
+ */
+export function parseLazyTabUrl(url: string): LazyTabInfo | null {
+  const pageUrl = chrome.runtime.getURL(LAZY_TAB_PAGE);
+  if (!url.startsWith(`${pageUrl}?`)) {
+    return null;
+  }
+
+  const params = new URLSearchParams(url.substring(pageUrl.length + 1));
+  const originalUrl = params.get('url');
+  if (!originalUrl) {
+    return null;
+  }
+
+  return {
+    url: originalUrl,
+    title: params.get('title') || originalUrl,
+    favIconUrl: params.get('favIconUrl') || undefined
+  };
+}
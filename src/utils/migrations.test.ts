@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { TabGroup } from '../types/background.js';
+import { CURRENT_DATA_VERSION, compareVersions, migrateData, needsMigration } from './migrations.js';
+import type { VersionedData } from './migrations.js';
+
+/** 1.0.0 版本的分组：ID为时间戳，缺少标签页ID和活动记录 */
+function legacyGroup(id: number, urls: string[]): TabGroup {
+  const group = {
+    id,
+    name: '旧分组',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    tabs: urls.map((url) => ({ title: url, url }))
+  };
+  return group as unknown as TabGroup;
+}
+
+describe('compareVersions', () => {
+  it('按数字比较各段版本号', () => {
+    expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+    expect(compareVersions('1.2', '1.2.0')).toBe(0);
+    expect(compareVersions('1.0.0', '1.3.0')).toBeLessThan(0);
+  });
+});
+
+describe('migrateData', () => {
+  it('没有版本号的旧数据迁移到当前版本', () => {
+    const data: VersionedData = { groups: [legacyGroup(1700000000000, ['https://a.com'])] };
+
+    const migrated = migrateData(data);
+
+    expect(migrated.version).toBe(CURRENT_DATA_VERSION);
+    expect(needsMigration(migrated)).toBe(false);
+    expect(migrated.settings?.excludeList).toContain('chrome://');
+    expect(migrated.groups[0]).toMatchObject({ pinned: false, locked: false });
+  });
+
+  it('时间戳分组ID转换为由原ID决定的 UUID', () => {
+    const migrated = migrateData({ groups: [legacyGroup(0x18b, ['https://a.com'])] });
+
+    expect(migrated.groups[0].id).toBe('ffffffff-0000-4000-8000-00000000018b');
+  });
+
+  it('标签页ID与位置无关，相同网址的多次出现得到不同的ID', () => {
+    const a = migrateData({ groups: [legacyGroup(1, ['https://a.com', 'https://b.com', 'https://a.com'])] });
+    const b = migrateData({ groups: [legacyGroup(1, ['https://b.com', 'https://a.com'])] });
+    const [firstA, tabB, secondA] = a.groups[0].tabs;
+
+    expect(firstA.uid).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-8[0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(secondA.uid).not.toBe(firstA.uid);
+    expect(b.groups[0].tabs[0].uid).toBe(tabB.uid);
+    expect(b.groups[0].tabs[1].uid).toBe(firstA.uid);
+  });
+
+  it('补全标签页的保存时间和打开次数', () => {
+    const migrated = migrateData({ groups: [legacyGroup(1, ['https://a.com'])] });
+
+    expect(migrated.groups[0].tabs[0]).toMatchObject({ addedAt: '2024-01-01T00:00:00.000Z', openCount: 0 });
+  });
+
+  it('移除没有网址的标签页', () => {
+    const migrated = migrateData({ groups: [legacyGroup(1, ['https://a.com', ''])] });
+
+    expect(migrated.groups[0].tabs).toHaveLength(1);
+  });
+
+  it('已是当前版本的数据原样返回', () => {
+    const data = { version: CURRENT_DATA_VERSION, groups: [] };
+
+    expect(migrateData(data)).toBe(data);
+  });
+
+  it('更新版本写入的数据抛出错误', () => {
+    expect(() => migrateData({ version: '99.0.0', groups: [] })).toThrow('请先升级扩展');
+  });
+});
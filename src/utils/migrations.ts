@@ -0,0 +1,204 @@
+/**
+ * 数据结构迁移
+ * 按版本号登记迁移步骤，将旧版本写入的数据逐步升级到当前数据结构
+ * 本地存储、导入的数据以及从同步服务下载的数据在使用前都需要经过迁移
+ */
+
+import type { AppSettings, TabData, TabGroup } from '../types/background.js';
+
+/** 当前数据结构版本 */
+export const CURRENT_DATA_VERSION = '1.3.0';
+
+/** 没有版本号的旧数据视为该版本 */
+const LEGACY_DATA_VERSION = '1.0.0';
+
+/** 默认排除列表（旧数据缺少设置时使用） */
+const DEFAULT_EXCLUDE_LIST = ['chrome://', 'chrome-extension://', 'edge://', 'about:'];
+
+/**
+ * 可迁移的数据
+ * 本地存储数据、导入的数据和同步数据都包含分组和设置
+ */
+export interface VersionedData {
+  /** 数据结构版本，缺失时视为最早的版本 */
+  version?: string;
+  /** 标签页分组列表 */
+  groups: TabGroup[];
+  /** 应用设置 */
+  settings?: AppSettings;
+}
+
+/**
+ * 计算文本的 32 位 FNV-1a 哈希
+ * @param text 文本
+ * @param seed 初始值（不同的初始值得到互相独立的哈希）
+ * @returns 8 位十六进制字符串
+ */
+function hashText(text: string, seed: number): string {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * 将旧版本的时间戳分组ID转换为 UUID 格式的ID
+ * 转换结果只由原ID决定，各设备迁移同一分组得到相同的ID，同步合并时仍能互相匹配
+ * @param groupId 旧分组ID（时间戳）
+ */
+function legacyIdToUuid(groupId: number): string {
+  return `ffffffff-0000-4000-8000-${Math.trunc(Math.abs(groupId)).toString(16).padStart(12, '0')}`;
+}
+
+/**
+ * 为旧分组中的标签页生成 UUID 格式的ID
+ * 由分组ID、网址以及该网址在分组中第几次出现决定，与标签页的位置无关：
+ * 两台设备上同一旧分组的标签页列表不同（如一端追加或删除过标签页）时，相同网址仍得到相同的ID
+ * @param groupId 旧分组ID（时间戳）
+ * @param url 标签页网址
+ * @param occurrence 该网址在分组中是第几次出现（从0开始）
+ */
+function legacyTabUid(groupId: number, url: string, occurrence: number): string {
+  const urlHash = `${hashText(url, 0x811c9dc5)}${hashText(url, 0x050c5d1f)}`;
+  const occurrenceHex = (occurrence % 0x1000).toString(16).padStart(3, '0');
+  const groupHex = Math.trunc(Math.abs(groupId)).toString(16).padStart(12, '0');
+  return `${urlHash.slice(0, 8)}-${urlHash.slice(8, 12)}-4${urlHash.slice(12, 15)}-8${occurrenceHex}-${groupHex}`;
+}
+
+/**
+ * 为分组及其标签页分配稳定ID
+ * @param group 分组（旧数据中 id 为数字）
+ */
+function assignStableIds(group: TabGroup): TabGroup {
+  const legacyId: unknown = group.id;
+  if (typeof legacyId !== 'number') {
+    return { ...group, tabs: group.tabs.map((tab) => ({ ...tab, uid: tab.uid || crypto.randomUUID() })) };
+  }
+
+  const occurrences = new Map<string, number>();
+  return {
+    ...group,
+    id: legacyIdToUuid(legacyId),
+    tabs: group.tabs.map((tab) => {
+      const occurrence = occurrences.get(tab.url) ?? 0;
+      occurrences.set(tab.url, occurrence + 1);
+      return { ...tab, uid: tab.uid || legacyTabUid(legacyId, tab.url, occurrence) };
+    })
+  };
+}
+
+/**
+ * 迁移步骤
+ */
+interface Migration {
+  /** 迁移后的版本 */
+  to: string;
+  /** 迁移说明 */
+  description: string;
+  /** 迁移函数，返回新对象，不修改传入的数据 */
+  migrate: (data: VersionedData) => VersionedData;
+}
+
+/**
+ * 迁移登记表，键为迁移前的版本
+ * 新增数据结构变更时，在此登记一个从当前版本出发的迁移并更新 CURRENT_DATA_VERSION
+ */
+const MIGRATIONS: Record<string, Migration> = {
+  '1.0.0': {
+    to: '1.1.0',
+    description: '补全分组缺失的字段，移除没有网址的标签页',
+    migrate: (data) => ({
+      ...data,
+      settings: { ...data.settings, excludeList: data.settings?.excludeList || DEFAULT_EXCLUDE_LIST },
+      groups: (data.groups || []).map((group) => ({
+        ...group,
+        createdAt: group.createdAt || new Date().toISOString(),
+        pinned: group.pinned || false,
+        locked: group.locked || false,
+        tabs: (group.tabs || []).filter((tab: TabData) => Boolean(tab?.url))
+      }))
+    })
+  },
+  '1.1.0': {
+    to: '1.2.0',
+    description: '将分组的时间戳ID转换为UUID，为标签页分配UUID',
+    migrate: (data) => ({
+      ...data,
+      groups: data.groups.map(assignStableIds)
+    })
+  },
+  '1.2.0': {
+    to: '1.3.0',
+    description: '为标签页补全保存时间和打开次数',
+    migrate: (data) => ({
+      ...data,
+      groups: data.groups.map((group) => ({
+        ...group,
+        // 旧数据没有记录标签页的保存时间，以分组创建时间代替
+        tabs: group.tabs.map((tab) => ({
+          ...tab,
+          addedAt: tab.addedAt || group.createdAt,
+          openCount: tab.openCount ?? 0
+        }))
+      }))
+    })
+  }
+};
+
+/**
+ * 比较两个版本号
+ * @param a 版本号
+ * @param b 版本号
+ * @returns a 较新时为正数，较旧时为负数，相同时为 0
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map((part) => parseInt(part, 10) || 0);
+  const partsB = b.split('.').map((part) => parseInt(part, 10) || 0);
+  const length = Math.max(partsA.length, partsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * 判断数据是否需要迁移
+ * @param data 数据
+ */
+export function needsMigration(data: VersionedData): boolean {
+  return (data.version || LEGACY_DATA_VERSION) !== CURRENT_DATA_VERSION;
+}
+
+/**
+ * 将数据迁移到当前数据结构
+ * 由更新版本的扩展写入的数据无法降级，直接抛出错误
+ * @param data 数据
+ * @returns 迁移后的新数据（已是当前版本时原样返回）
+ */
+export function migrateData<T extends VersionedData>(data: T): T {
+  let version = data.version || LEGACY_DATA_VERSION;
+
+  if (compareVersions(version, CURRENT_DATA_VERSION) > 0) {
+    throw new Error(`数据由更新版本的扩展写入（数据版本 ${version}，当前支持 ${CURRENT_DATA_VERSION}），请先升级扩展`);
+  }
+
+  let result = data;
+  while (version !== CURRENT_DATA_VERSION) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`缺少数据版本 ${version} 的迁移`);
+    }
+
+    console.log(`Migrating data ${version} -> ${migration.to}: ${migration.description}`);
+    result = { ...result, ...migration.migrate(result), version: migration.to };
+    version = migration.to;
+  }
+
+  return result;
+}
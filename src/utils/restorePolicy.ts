@@ -0,0 +1,62 @@
+/**
+ * 恢复策略
+ * - 移除策略：恢复单个标签页或整个分组后，是否将其从已保存的列表中移除
+ * - 去重方式：要恢复的标签页已在某个窗口中打开时如何处理
+ */
+
+import type { RestoreConsumePolicy, RestoreDedupeMode, RestoreDedupeSummary, TabGroup } from '../types/background.js';
+
+/** 移除策略的显示名称 */
+export const RESTORE_CONSUME_POLICY_LABELS: Record<RestoreConsumePolicy, string> = {
+  keep: '保留在列表中',
+  removeUnlocked: '从列表中移除（锁定的分组除外）',
+  alwaysRemove: '总是从列表中移除（锁定的分组除外）'
+};
+
+/**
+ * 判断恢复后是否应从分组中移除
+ * 锁定的分组在任何策略下都不会被移除
+ * @param group 标签页所属的分组
+ * @param policy 移除策略
+ */
+export function shouldConsumeOnRestore(group: Pick<TabGroup, 'locked'>, policy: RestoreConsumePolicy): boolean {
+  if (group.locked) {
+    return false;
+  }
+  switch (policy) {
+    case 'alwaysRemove':
+    case 'removeUnlocked':
+      return true;
+    case 'keep':
+    default:
+      return false;
+  }
+}
+
+/** 去重方式的显示名称 */
+export const RESTORE_DEDUPE_MODE_LABELS: Record<RestoreDedupeMode, string> = {
+  off: '照常打开',
+  skip: '跳过',
+  focus: '切换到已打开的标签页',
+  move: '移到目标窗口'
+};
+
+/** 各去重方式下对已打开标签页的处理结果 */
+const DEDUPE_RESULT_LABELS: Record<RestoreDedupeMode, string> = {
+  off: '',
+  skip: '已跳过',
+  focus: '已切换到',
+  move: '已移入'
+};
+
+/**
+ * 生成去重结果的说明文字
+ * @param summary 去重结果
+ * @returns 没有已打开的标签页时返回空字符串
+ */
+export function formatDedupeSummary(summary?: RestoreDedupeSummary): string {
+  if (!summary || summary.matched === 0 || summary.mode === 'off') {
+    return '';
+  }
+  return `${DEDUPE_RESULT_LABELS[summary.mode]} ${summary.matched} 个已打开的标签页`;
+}
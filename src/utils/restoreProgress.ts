@@ -0,0 +1,41 @@
+/**
+ * 恢复进度
+ * 页面通过长连接端口接收后台恢复作业的进度，并可取消作业
+ */
+
+import type { RestoreCancelRequest, RestoreJobProgress, RestoreProgressEvent } from '../types/background.js';
+
+/** 恢复进度端口名称 */
+export const RESTORE_PROGRESS_PORT = 'restore-progress';
+
+/** 与后台的进度连接 */
+export interface RestoreProgressConnection {
+  /** 取消恢复作业 */
+  cancel: (jobId: string) => void;
+  /** 断开连接 */
+  disconnect: () => void;
+}
+
+/**
+ * 连接后台的恢复进度端口
+ * 连接后立即收到当前所有作业的进度，之后每次进度变化都会收到更新
+ * @param onJobs 作业进度回调
+ * @returns 进度连接
+ */
+export function connectRestoreProgress(onJobs: (jobs: RestoreJobProgress[]) => void): RestoreProgressConnection {
+  const port = chrome.runtime.connect({ name: RESTORE_PROGRESS_PORT });
+
+  port.onMessage.addListener((message: RestoreProgressEvent) => {
+    if (message.type === 'jobs') {
+      onJobs(message.jobs);
+    }
+  });
+
+  return {
+    cancel: (jobId: string) => {
+      const request: RestoreCancelRequest = { type: 'cancel', jobId };
+      port.postMessage(request);
+    },
+    disconnect: () => port.disconnect()
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * 分组和标签页搜索
+ * 标签页列表页面和地址栏关键字共用同一套匹配规则
+ */
+
+import type { TabData, TabGroup } from '../types/background.js';
+
+/** 参与匹配的标签页字段 */
+type SearchableTab = Pick<TabData, 'title' | 'url'>;
+
+/** 参与匹配的分组字段 */
+type SearchableGroup = Pick<TabGroup, 'name'> & { tabs: SearchableTab[] };
+
+/**
+ * 将搜索词拆分为小写关键词
+ * @param query 搜索词
+ * @returns 关键词列表，空白搜索词返回空数组
+ */
+export function parseSearchQuery(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * 检查文本是否包含全部关键词（不区分大小写）
+ * @param text 要检查的文本
+ * @param terms 关键词列表
+ */
+function containsAllTerms(text: string, terms: string[]): boolean {
+  const lowerText = text.toLowerCase();
+  return terms.every((term) => lowerText.includes(term));
+}
+
+/**
+ * 检查标签页的标题或URL是否匹配搜索词
+ * @param tab 标签页
+ * @param query 搜索词
+ */
+export function matchesTab(tab: SearchableTab, query: string): boolean {
+  return containsAllTerms(`${tab.title} ${tab.url}`, parseSearchQuery(query));
+}
+
+/**
+ * 检查分组名称是否匹配搜索词
+ * @param group 分组
+ * @param query 搜索词
+ */
+export function matchesGroupName(group: SearchableGroup, query: string): boolean {
+  return containsAllTerms(group.name, parseSearchQuery(query));
+}
+
+/**
+ * 检查分组名称或其中任一标签页是否匹配搜索词
+ * 空搜索词匹配所有分组
+ * @param group 分组
+ * @param query 搜索词
+ */
+export function matchesGroup(group: SearchableGroup, query: string): boolean {
+  return matchesGroupName(group, query) || group.tabs.some((tab) => matchesTab(tab, query));
+}
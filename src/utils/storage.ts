@@ -1,13 +1,40 @@
 /**
  * 存储相关工具函数
  * 提供统一的数据存储和获取接口
+ * 分组数据保存在 IndexedDB 中（见 database.ts），用户设置等少量数据保存在 chrome.storage.local 中
  */
 
-import type { StorageData, MessageResponse } from '../types/background.js';
+import type { AppSettings, StorageData, MessageResponse, UserSettings, MigrationBackup } from '../types/background.js';
+import { CURRENT_DATA_VERSION, migrateData, needsMigration } from './migrations.js';
+import {
+  deleteMigrationBackup,
+  findTabsByUrl,
+  readData,
+  readMigrationBackup,
+  readSettings,
+  writeData,
+  writeMigrationBackup
+} from './database.js';
+import type { SavedTabMatch } from './database.js';
 
-/** 数据存储键名 */
+/** 旧版本的数据存储键名（数据已移至 IndexedDB，仅用于一次性迁移） */
 export const STORAGE_KEY = 'tabSorterData' as const;
 
+/** 数据版本标记的存储键名，每次保存数据时更新，用于通知其他页面数据已变化 */
+export const DATA_REVISION_KEY = 'tabSorterDataRevision' as const;
+
+/** 旧版本保存迁移前数据备份的存储键名（备份已移至 IndexedDB，仅用于清理） */
+export const MIGRATION_BACKUP_KEY = 'tabSorterDataBackup' as const;
+
+/** 迁移前数据备份的保留天数，超过后在下次启动时删除 */
+const MIGRATION_BACKUP_DAYS = 30;
+
+/** 用户设置存储键名 */
+export const USER_SETTINGS_KEY = 'settings' as const;
+
+/** 本机设备ID的存储键名（不随数据同步） */
+export const DEVICE_ID_KEY = 'tabSorterDeviceId' as const;
+
 /**
  * 生成设备唯一标识符
  * @returns 设备ID
@@ -20,7 +47,7 @@ export function generateDeviceId(): string {
 
 /** 默认数据结构 */
 export const DEFAULT_DATA: StorageData = {
-  version: '1.0.0',
+  version: CURRENT_DATA_VERSION,
   metadata: {
     lastModified: new Date().toISOString(),
     lastSyncTimestamp: '',
@@ -29,7 +56,35 @@ export const DEFAULT_DATA: StorageData = {
   settings: {
     excludeList: ['chrome://', 'chrome-extension://', 'edge://', 'about:']
   },
-  groups: []
+  groups: [],
+  folders: [],
+  deletedFolders: []
+};
+
+/** 默认用户设置 */
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  defaultGroupName: 'yyyy-MM-dd HH:mm:ss',
+  theme: 'system',
+  language: 'zh-CN',
+  aggregateInNewTab: true,
+  restoreInNewWindow: false,
+  lazyRestore: false,
+  restoreConsumePolicy: 'keep',
+  restoreDedupeMode: 'off',
+  showNotifications: true,
+  autoLockGroups: false,
+  maxGroupsToKeep: 50,
+  excludePinnedTabs: true,
+  confirmBeforeDelete: true,
+  autoBackup: false,
+  backupInterval: 7,
+  domainSplitBySiteFamily: true,
+  domainSplitMinGroupSize: 2,
+  idleArchiveEnabled: false,
+  idleArchiveMinutes: 120,
+  idleArchiveAllowlist: [],
+  tabCapEnabled: false,
+  maxTabsPerWindow: 30
 };
 
 /**
@@ -37,15 +92,17 @@ export const DEFAULT_DATA: StorageData = {
  * 封装所有与Chrome存储相关的操作
  */
 export class StorageManager {
+  /** 旧数据移入 IndexedDB 的任务（每个页面或 Service Worker 只执行一次） */
+  private static legacyDataMove: Promise<void> | null = null;
+
   /**
    * 获取存储数据
    * @returns 存储的数据或默认数据
    */
   static async getData(): Promise<StorageData> {
     try {
-      const result = await chrome.storage.local.get(STORAGE_KEY);
-      const data = result[STORAGE_KEY];
-      return data || DEFAULT_DATA;
+      await this.ensureLegacyDataMoved();
+      return (await readData()) || DEFAULT_DATA;
     } catch (error) {
       console.error('Failed to get storage data:', error);
       return DEFAULT_DATA;
@@ -54,25 +111,126 @@ export class StorageManager {
 
   /**
    * 保存数据到存储
+   * 只重写发生变化的分组，保存后更新数据版本标记
    * @param data 要保存的数据
    */
   static async setData(data: StorageData): Promise<void> {
     try {
-      await chrome.storage.local.set({ [STORAGE_KEY]: data });
+      await this.ensureLegacyDataMoved();
+      await writeData(data);
+      await chrome.storage.local.set({ [DATA_REVISION_KEY]: crypto.randomUUID() });
     } catch (error) {
       console.error('Failed to save storage data:', error);
       throw error;
     }
   }
 
+  /**
+   * 获取应用设置（如排除规则）
+   * 只读取元数据，不加载分组和标签页，适合在标签页事件中频繁调用
+   * @returns 应用设置，没有数据时返回默认设置
+   */
+  static async getSettings(): Promise<AppSettings> {
+    try {
+      await this.ensureLegacyDataMoved();
+      return (await readSettings()) || DEFAULT_DATA.settings;
+    } catch (error) {
+      console.error('Failed to get settings:', error);
+      return DEFAULT_DATA.settings;
+    }
+  }
+
+  /**
+   * 按网址查找已保存的标签页
+   * @param url 网址（完全匹配）
+   * @returns 匹配的标签页及其所属分组
+   */
+  static async findTabsByUrl(url: string): Promise<SavedTabMatch[]> {
+    try {
+      await this.ensureLegacyDataMoved();
+      return await findTabsByUrl(url);
+    } catch (error) {
+      console.error('Failed to find saved tabs by url:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 确保旧版本保存在 chrome.storage.local 中的数据已移入 IndexedDB
+   */
+  private static ensureLegacyDataMoved(): Promise<void> {
+    if (!this.legacyDataMove) {
+      this.legacyDataMove = this.moveLegacyData().catch((error) => {
+        this.legacyDataMove = null;
+        throw error;
+      });
+    }
+    return this.legacyDataMove;
+  }
+
+  /**
+   * 将旧版本的数据一次性移入 IndexedDB，完成后删除旧的存储键
+   */
+  private static async moveLegacyData(): Promise<void> {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    const legacyData = result[STORAGE_KEY] as StorageData | undefined;
+    if (!legacyData) {
+      return;
+    }
+
+    // 其他页面可能已完成迁移并写入了新数据，此时不覆盖
+    if (!(await readData())) {
+      await writeData(legacyData);
+    }
+    await chrome.storage.local.remove(STORAGE_KEY);
+
+    console.log(`Moved ${legacyData.groups?.length ?? 0} groups from chrome.storage.local to IndexedDB`);
+  }
+
+  /**
+   * 获取用户设置
+   * @returns 与默认值合并后的用户设置
+   */
+  static async getUserSettings(): Promise<UserSettings> {
+    try {
+      const result = await chrome.storage.local.get(USER_SETTINGS_KEY);
+      return { ...DEFAULT_USER_SETTINGS, ...(result[USER_SETTINGS_KEY] as Partial<UserSettings>) };
+    } catch (error) {
+      console.error('Failed to get user settings:', error);
+      return DEFAULT_USER_SETTINGS;
+    }
+  }
+
+  /**
+   * 获取本机设备ID，首次调用时生成
+   * 同步下载的数据会带有其他设备的元数据，因此本机ID单独保存
+   * @returns 设备ID
+   */
+  static async getDeviceId(): Promise<string> {
+    try {
+      const result = await chrome.storage.local.get(DEVICE_ID_KEY);
+      const existing = result[DEVICE_ID_KEY] as string | undefined;
+      if (existing) {
+        return existing;
+      }
+
+      const deviceId = generateDeviceId();
+      await chrome.storage.local.set({ [DEVICE_ID_KEY]: deviceId });
+      return deviceId;
+    } catch (error) {
+      console.error('Failed to get device id:', error);
+      throw error;
+    }
+  }
+
   /**
    * 初始化存储
    * @description 如果storage 中不存在数据则向存储中初始化一份数据数据
    */
   static async initialize(): Promise<void> {
     try {
-      const result = await chrome.storage.local.get(STORAGE_KEY);
-      if (!result[STORAGE_KEY]) {
+      await this.ensureLegacyDataMoved();
+      if (!(await readData())) {
         await this.setData(DEFAULT_DATA);
         console.log('Initialized default storage data');
       }
@@ -83,11 +241,57 @@ export class StorageManager {
   }
 
   /**
-   * 清空所有数据
+   * 将已存储的数据迁移到当前数据结构
+   * 迁移前在 IndexedDB 中保存一份原始数据的备份（保留 MIGRATION_BACKUP_DAYS 天）；数据由更新版本写入时保持原样不做修改
+   */
+  static async migrate(): Promise<void> {
+    try {
+      await this.ensureLegacyDataMoved();
+      await this.pruneMigrationBackup();
+      const data = await readData();
+      if (!data || !needsMigration(data)) {
+        return;
+      }
+
+      const migrated = migrateData(data);
+
+      const backup: MigrationBackup = {
+        version: data.version,
+        createdAt: new Date().toISOString(),
+        data
+      };
+      await writeMigrationBackup(backup);
+      await this.setData(migrated);
+
+      console.log(`Migrated storage data from ${data.version || 'legacy'} to ${migrated.version}`);
+    } catch (error) {
+      console.error('Failed to migrate storage data:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 删除过期的迁移前数据备份，以及旧版本保存在 chrome.storage.local 中的备份
+   */
+  private static async pruneMigrationBackup(): Promise<void> {
+    await chrome.storage.local.remove(MIGRATION_BACKUP_KEY);
+
+    const backup = await readMigrationBackup();
+    const expiresAt = Date.now() - MIGRATION_BACKUP_DAYS * 24 * 60 * 60 * 1000;
+    if (backup && !(Date.parse(backup.createdAt) > expiresAt)) {
+      await deleteMigrationBackup();
+      console.log(`Deleted migration backup created at ${backup.createdAt}`);
+    }
+  }
+
+  /**
+   * 清空所有数据（包括迁移前的数据备份）
    */
   static async clear(): Promise<void> {
     try {
       await this.setData(DEFAULT_DATA);
+      await deleteMigrationBackup();
+      await chrome.storage.local.remove(MIGRATION_BACKUP_KEY);
       console.log('Cleared all storage data');
     } catch (error) {
       console.error('Failed to clear storage data:', error);
@@ -97,12 +301,15 @@ export class StorageManager {
 
   /**
    * 获取存储使用情况
-   * @returns 存储使用字节数
+   * @returns 存储使用字节数（IndexedDB 与 chrome.storage.local 之和）
    */
   static async getUsage(): Promise<number> {
     try {
-      const result = await chrome.storage.local.getBytesInUse();
-      return result;
+      const [estimate, bytesInUse] = await Promise.all([
+        navigator.storage.estimate(),
+        chrome.storage.local.getBytesInUse()
+      ]);
+      return (estimate.usage ?? 0) + bytesInUse;
     } catch (error) {
       console.error('Failed to get storage usage:', error);
       return 0;
@@ -167,21 +374,22 @@ export function isValidUrl(url: string): boolean {
 }
 
 /**
- * 检查URL是否在排除列表中
- * @param url 要检查的URL
- * @param excludeList 排除列表
- * @returns 是否应该排除
+ * 生成ID（基于时间戳）
+ * 同一毫秒内生成的ID相同，只用于批次、快照等本地记录
+ * 可能同时创建的记录（如恢复作业）应使用 generateUuid
+ * @returns ID
  */
-export function shouldExcludeUrl(url: string, excludeList: string[]): boolean {
-  return excludeList.some((excludeUrl) => url.startsWith(excludeUrl));
+export function generateId(): number {
+  return Date.now();
 }
 
 /**
- * 生成唯一ID（基于时间戳）
- * @returns 唯一ID
+ * 生成全局唯一ID（UUID）
+ * 用于分组和标签页，导入、同步合并时按该ID识别同一条记录
+ * @returns UUID
  */
-export function generateId(): number {
-  return Date.now();
+export function generateUuid(): string {
+  return crypto.randomUUID();
 }
 
 /**
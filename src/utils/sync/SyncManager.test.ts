@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TabData, TabGroup } from '../../types/background';
+import type { SyncData } from '../../types/sync';
+
+/** chrome.storage.local 的内存实现 */
+const localStorageArea = vi.hoisted(() => {
+  const items: Record<string, unknown> = {};
+  const area = {
+    items,
+    get: async (key: string) => (key in items ? { [key]: items[key] } : {}),
+    set: async (values: Record<string, unknown>) => {
+      Object.assign(items, values);
+    }
+  };
+  vi.stubGlobal('chrome', { storage: { local: area } });
+  return area;
+});
+
+import { SyncManager } from './SyncManager';
+
+/** 访问私有的合并方法 */
+interface MergeAccess {
+  mergeData(local: SyncData, remote: SyncData, openCountBase: Map<string, number>): SyncData;
+}
+
+/** 创建标签页 */
+function tab(uid: string, fields: Partial<TabData> = {}): TabData {
+  return { uid, title: uid, url: `https://${uid}.com`, ...fields };
+}
+
+/** 创建同步数据 */
+function syncData(timestamp: string, groups: TabGroup[]): SyncData {
+  return {
+    version: '1',
+    timestamp,
+    device: { id: 'device', name: 'device', platform: 'test' },
+    data: { groups, settings: { excludeList: [] } }
+  };
+}
+
+/** 以远程数据较新的情况合并同一分组的标签页 */
+function mergeGroupTabs(localTabs: TabData[], remoteTabs: TabData[], openCountBase = new Map<string, number>()) {
+  const group: TabGroup = { id: 'group', name: '分组', createdAt: '2024-01-01T00:00:00.000Z', tabs: [] };
+  const local = syncData('2024-01-01T00:00:00.000Z', [{ ...group, tabs: localTabs }]);
+  const remote = syncData('2024-01-02T00:00:00.000Z', [{ ...group, tabs: remoteTabs }]);
+  const merged = (new SyncManager() as unknown as MergeAccess).mergeData(local, remote, openCountBase);
+  return merged.data.groups[0].tabs as TabData[];
+}
+
+beforeEach(() => {
+  for (const key of Object.keys(localStorageArea.items)) {
+    delete localStorageArea.items[key];
+  }
+});
+
+describe('SyncManager 合并标签页', () => {
+  it('按标签页ID匹配，网址相同但ID不同的标签页都保留', () => {
+    const tabs = mergeGroupTabs(
+      [tab('a'), tab('b', { url: 'https://same.com' })],
+      [tab('c', { url: 'https://same.com' }), tab('a')]
+    );
+
+    expect(tabs.map((item) => item.uid)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('同一标签页以本地版本为准，标签以较晚的修改为准', () => {
+    const [merged] = mergeGroupTabs(
+      [tab('a', { title: '本地', tags: ['local'], tagsUpdatedAt: '2024-01-01T00:00:00.000Z' })],
+      [tab('a', { title: '远程', tags: ['remote'], tagsUpdatedAt: '2024-01-02T00:00:00.000Z' })]
+    );
+
+    expect(merged).toMatchObject({ title: '本地', tags: ['remote'] });
+  });
+
+  it('按上次同步时的打开次数累加两端新增的次数', () => {
+    const [merged] = mergeGroupTabs([tab('a', { openCount: 4 })], [tab('a', { openCount: 3 })], new Map([['a', 2]]));
+
+    expect(merged.openCount).toBe(5);
+  });
+});
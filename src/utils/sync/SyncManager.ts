@@ -14,8 +14,22 @@ import type {
   SyncConflict,
   ConflictResolution
 } from '../../types/sync';
+import type { TabData } from '../../types/background';
 import { SyncProviderFactory } from './SyncProviderFactory';
 import { StorageManager } from '../storage';
+import { CURRENT_DATA_VERSION, migrateData } from '../migrations';
+import { mergeTagFields } from '../tags';
+import { mergeTabActivity } from '../tabActivity';
+import {
+  mergeFolderTombstones,
+  mergeFolders,
+  mergeGroupPlacement,
+  moveGroupsFromDeletedFolders,
+  normalizeFolders
+} from '../folders';
+
+/** 上次同步完成时各标签页的打开次数（按标签页ID），作为合并打开次数的共同基准 */
+const SYNCED_OPEN_COUNTS_KEY = 'syncedOpenCounts';
 
 export class SyncManager implements ISyncManager {
   private _status: SyncStatus = 'idle';
@@ -75,7 +89,13 @@ export class SyncManager implements ISyncManager {
       };
 
       // 清除存储的配置
-      await chrome.storage.local.remove(['syncConfig', 'sync_github_config', 'lastSyncData', 'github_user_info']);
+      await chrome.storage.local.remove([
+        'syncConfig',
+        'sync_github_config',
+        'lastSyncData',
+        'github_user_info',
+        SYNCED_OPEN_COUNTS_KEY
+      ]);
 
       // 清除提供商
       this.provider = null;
@@ -139,6 +159,9 @@ export class SyncManager implements ISyncManager {
         console.log('No remote data found or download failed');
       }
 
+      // 远程数据可能由旧版本上传，合并前先迁移；由更新版本上传时抛出错误，终止本次同步
+      remoteData = remoteData && this.migrateSyncData(remoteData);
+
       // 第三步：基于元数据的智能同步决策
       const syncDecision = this.makeSyncDecision(localStorageData, remoteData);
       console.log('🤖 Sync decision:', syncDecision);
@@ -149,6 +172,7 @@ export class SyncManager implements ISyncManager {
           const uploadResult = await this.provider.upload(localSyncData);
           if (uploadResult.success) {
             await this.updateSyncMetadata(localStorageData);
+            await this.saveSyncedOpenCounts(localSyncData);
             this._config.lastSync = new Date().toISOString();
             await this.saveConfig();
             this.setStatus('success');
@@ -166,6 +190,7 @@ export class SyncManager implements ISyncManager {
           console.log('📥 Downloading remote data to local...');
           const downloadedData = this.convertFromSyncData(remoteData!);
           await StorageManager.setData(downloadedData);
+          await this.saveSyncedOpenCounts(remoteData!);
           this._config.lastSync = new Date().toISOString();
           await this.saveConfig();
           this.setStatus('success');
@@ -183,6 +208,7 @@ export class SyncManager implements ISyncManager {
           await StorageManager.setData(mergedStorageData);
           const mergeUploadResult = await this.provider.upload(mergedData);
           if (mergeUploadResult.success) {
+            await this.saveSyncedOpenCounts(mergedData);
             this._config.lastSync = new Date().toISOString();
             await this.saveConfig();
             this.setStatus('success');
@@ -238,6 +264,7 @@ export class SyncManager implements ISyncManager {
       const result = await this.provider.upload(localData);
 
       if (result.success) {
+        await this.saveSyncedOpenCounts(localData);
         this._config.lastSync = new Date().toISOString();
         await this.saveConfig();
         this.setStatus('success');
@@ -272,8 +299,9 @@ export class SyncManager implements ISyncManager {
         throw new Error('No sync provider available');
       }
 
-      const remoteData = await this.provider.download();
+      const remoteData = this.migrateSyncData(await this.provider.download());
       await this.saveLocalData(remoteData);
+      await this.saveSyncedOpenCounts(remoteData);
 
       this._config.lastSync = new Date().toISOString();
       await this.saveConfig();
@@ -312,7 +340,7 @@ export class SyncManager implements ISyncManager {
           finalData = conflict.remote;
           break;
         case 'merge':
-          finalData = this.mergeData(conflict.local, conflict.remote);
+          finalData = this.mergeData(conflict.local, conflict.remote, await this.loadSyncedOpenCounts());
           break;
         default:
           throw new Error('Invalid conflict resolution');
@@ -325,6 +353,7 @@ export class SyncManager implements ISyncManager {
       if (this.provider) {
         const uploadResult = await this.provider.upload(finalData);
         if (uploadResult.success) {
+          await this.saveSyncedOpenCounts(finalData);
           this._config.lastSync = new Date().toISOString();
           await this.saveConfig();
           this.setStatus('success');
@@ -438,6 +467,7 @@ export class SyncManager implements ISyncManager {
 
       return {
         version: this.generateVersion(),
+        schemaVersion: CURRENT_DATA_VERSION,
         timestamp: new Date().toISOString(),
         device: {
           id: await this.getDeviceId(),
@@ -447,7 +477,9 @@ export class SyncManager implements ISyncManager {
         },
         data: {
           groups: storageData.groups || [],
-          settings: storageData.settings || {}
+          settings: storageData.settings || {},
+          folders: storageData.folders || [],
+          deletedFolders: storageData.deletedFolders || []
         }
       };
     } catch (error) {
@@ -468,7 +500,9 @@ export class SyncManager implements ISyncManager {
       const updatedData = {
         ...currentData,
         groups: data.data.groups,
-        settings: data.data.settings
+        settings: data.data.settings,
+        folders: data.data.folders || [],
+        deletedFolders: data.data.deletedFolders || []
       };
 
       // 保存更新后的数据
@@ -643,12 +677,36 @@ export class SyncManager implements ISyncManager {
     };
   }
 
+  /**
+   * 将下载的同步数据迁移到当前数据结构
+   * 由更新版本的扩展上传的数据无法降级，抛出错误
+   */
+  private migrateSyncData(syncData: SyncData): SyncData {
+    const migrated = migrateData({
+      version: syncData.schemaVersion,
+      groups: syncData.data?.groups || [],
+      settings: syncData.data?.settings
+    });
+
+    return {
+      ...syncData,
+      schemaVersion: migrated.version,
+      data: {
+        groups: migrated.groups,
+        settings: migrated.settings || {},
+        folders: syncData.data?.folders || [],
+        deletedFolders: syncData.data?.deletedFolders || []
+      }
+    };
+  }
+
   /**
    * 转换存储数据为同步数据格式
    */
   private convertToSyncData(storageData: any): SyncData {
     return {
       version: this.generateVersion(),
+      schemaVersion: CURRENT_DATA_VERSION,
       timestamp: new Date().toISOString(),
       device: {
         id: storageData.metadata?.deviceId || 'unknown',
@@ -657,7 +715,9 @@ export class SyncManager implements ISyncManager {
       },
       data: {
         groups: storageData.groups || [],
-        settings: storageData.settings || {}
+        settings: storageData.settings || {},
+        folders: storageData.folders || [],
+        deletedFolders: storageData.deletedFolders || []
       }
     };
   }
@@ -667,8 +727,11 @@ export class SyncManager implements ISyncManager {
    */
   private convertFromSyncData(syncData: SyncData): any {
     return {
+      version: CURRENT_DATA_VERSION,
       groups: syncData.data.groups || [],
       settings: syncData.data.settings || {},
+      folders: syncData.data.folders || [],
+      deletedFolders: syncData.data.deletedFolders || [],
       metadata: {
         deviceId: syncData.device.id,
         deviceName: syncData.device.name,
@@ -682,24 +745,34 @@ export class SyncManager implements ISyncManager {
    * 执行三路合并
    */
   private performThreeWayMerge(local: SyncData, remote: SyncData, metadata: any): SyncData {
-    // 简化的三路合并实现
+    // 简化的三路合并实现，按分组ID去重
     const mergedGroups = [...(local.data.groups || []), ...(remote.data.groups || [])];
-    const uniqueGroups = mergedGroups.filter(
-      (group, index, self) => index === self.findIndex((g) => g.id === group.id)
-    );
+    const uniqueGroups = mergedGroups
+      .filter((group, index, self) => index === self.findIndex((g) => g.id === group.id))
+      .map((group) => {
+        // 两端都有的分组保留本地版本，标签以较晚的修改为准，所属文件夹以较晚的移动为准
+        const remoteGroup = (remote.data.groups || []).find((g) => g.id === group.id);
+        return remoteGroup && remoteGroup !== group
+          ? { ...group, ...mergeGroupPlacement(group, remoteGroup), ...mergeTagFields(group, remoteGroup) }
+          : group;
+      });
 
     const mergedSettings = {
       ...local.data.settings,
       ...remote.data.settings
     };
+    const deletedFolders = mergeFolderTombstones(local.data.deletedFolders, remote.data.deletedFolders);
 
     return {
       version: this.generateVersion(),
+      schemaVersion: CURRENT_DATA_VERSION,
       timestamp: new Date().toISOString(),
       device: local.device,
       data: {
-        groups: uniqueGroups,
-        settings: mergedSettings
+        groups: moveGroupsFromDeletedFolders(uniqueGroups, deletedFolders),
+        settings: mergedSettings,
+        folders: mergeFolders(local.data.folders || [], remote.data.folders || [], deletedFolders),
+        deletedFolders
       }
     };
   }
@@ -727,16 +800,20 @@ export class SyncManager implements ISyncManager {
 
   /**
    * 智能合并数据
+   * @param openCountBase 上次同步完成时各标签页的打开次数
    */
-  private mergeData(local: SyncData, remote: SyncData): SyncData {
+  private mergeData(local: SyncData, remote: SyncData, openCountBase: Map<string, number>): SyncData {
     const localTime = new Date(local.timestamp).getTime();
     const remoteTime = new Date(remote.timestamp).getTime();
+    // 文件夹的删除记录始终取并集，避免一端删除的文件夹被另一端的副本恢复
+    const deletedFolders = mergeFolderTombstones(local.data.deletedFolders, remote.data.deletedFolders);
 
     // 如果本地数据更新（比如刚删除了分组），优先使用本地数据
     if (localTime > remoteTime) {
       console.log('Local data is newer, using local data as primary source');
       return {
         version: this.generateVersion(),
+        schemaVersion: CURRENT_DATA_VERSION,
         timestamp: new Date().toISOString(),
         device: {
           id: local.device.id,
@@ -744,8 +821,10 @@ export class SyncManager implements ISyncManager {
           platform: local.device.platform
         },
         data: {
-          groups: local.data.groups || [],
-          settings: { ...remote.data.settings, ...local.data.settings }
+          groups: moveGroupsFromDeletedFolders(local.data.groups || [], deletedFolders),
+          settings: { ...remote.data.settings, ...local.data.settings },
+          folders: normalizeFolders(local.data.folders || [], deletedFolders),
+          deletedFolders
         }
       };
     }
@@ -753,7 +832,7 @@ export class SyncManager implements ISyncManager {
     // 如果远程数据更新，进行智能合并
     console.log('Remote data is newer or equal, performing intelligent merge');
 
-    // 创建合并后的分组映射
+    // 创建合并后的分组映射（按分组ID匹配）
     const mergedGroupsMap = new Map();
 
     // 添加本地分组
@@ -783,19 +862,23 @@ export class SyncManager implements ISyncManager {
 
         if (remoteGroupTime > existingTime) {
           // 远程版本更新，但保留本地的标签页（合并标签页）
-          const mergedTabs = this.mergeTabs(existingGroup.tabs || [], remoteGroup.tabs || []);
+          const mergedTabs = this.mergeTabs(existingGroup.tabs || [], remoteGroup.tabs || [], openCountBase);
           mergedGroupsMap.set(remoteGroup.id, {
             ...remoteGroup,
             tabs: mergedTabs,
+            ...mergeTagFields(existingGroup, remoteGroup),
+            ...mergeGroupPlacement(existingGroup, remoteGroup),
             _source: 'merged',
             _timestamp: Math.max(localTime, remoteTime)
           });
         } else {
           // 本地版本更新，但也要合并标签页
-          const mergedTabs = this.mergeTabs(existingGroup.tabs || [], remoteGroup.tabs || []);
+          const mergedTabs = this.mergeTabs(existingGroup.tabs || [], remoteGroup.tabs || [], openCountBase);
           mergedGroupsMap.set(existingGroup.id, {
             ...existingGroup,
             tabs: mergedTabs,
+            ...mergeTagFields(existingGroup, remoteGroup),
+            ...mergeGroupPlacement(existingGroup, remoteGroup),
             _source: 'merged',
             _timestamp: Math.max(localTime, remoteTime)
           });
@@ -817,6 +900,7 @@ export class SyncManager implements ISyncManager {
 
     return {
       version: this.generateVersion(),
+      schemaVersion: CURRENT_DATA_VERSION,
       timestamp: new Date().toISOString(),
       device: {
         id: local.device.id, // 使用本地设备信息
@@ -824,33 +908,69 @@ export class SyncManager implements ISyncManager {
         platform: local.device.platform
       },
       data: {
-        groups: mergedGroups,
-        settings: mergedSettings
+        groups: moveGroupsFromDeletedFolders(mergedGroups, deletedFolders),
+        settings: mergedSettings,
+        // 文件夹取并集并去掉已删除的，两端都有的文件夹以较新的远程版本为准，上级文件夹以较晚的移动为准
+        folders: mergeFolders(remote.data.folders || [], local.data.folders || [], deletedFolders),
+        deletedFolders
       }
     };
   }
 
   /**
    * 合并标签页
+   * 按标签页ID（uid）匹配，同一标签页以本地版本为准、标签以较晚的修改为准，打开记录按 mergeTabActivity 合并；网址相同但ID不同的标签页视为不同的记录
    */
-  private mergeTabs(localTabs: any[], remoteTabs: any[]): any[] {
-    const tabsMap = new Map();
+  private mergeTabs(localTabs: TabData[], remoteTabs: TabData[], openCountBase: Map<string, number>): TabData[] {
+    const tabsMap = new Map<string, TabData>();
 
     // 添加本地标签页
     localTabs.forEach((tab) => {
-      tabsMap.set(tab.url, tab);
+      tabsMap.set(tab.uid, tab);
     });
 
     // 添加远程标签页（去重）
     remoteTabs.forEach((tab) => {
-      if (!tabsMap.has(tab.url)) {
-        tabsMap.set(tab.url, tab);
-      }
+      const localTab = tabsMap.get(tab.uid);
+      tabsMap.set(
+        tab.uid,
+        localTab
+          ? {
+              ...localTab,
+              ...mergeTabActivity(localTab, tab, openCountBase.get(tab.uid)),
+              ...mergeTagFields(localTab, tab)
+            }
+          : tab
+      );
     });
 
     return Array.from(tabsMap.values());
   }
 
+  /**
+   * 记录同步完成时各标签页的打开次数，作为下次合并的基准
+   * @param data 同步完成后两端一致的数据
+   */
+  private async saveSyncedOpenCounts(data: SyncData): Promise<void> {
+    const counts: Record<string, number> = {};
+    (data.data.groups || []).forEach((group) => {
+      (group.tabs || []).forEach((tab: TabData) => {
+        if (tab.uid && tab.openCount !== undefined) {
+          counts[tab.uid] = tab.openCount;
+        }
+      });
+    });
+    await chrome.storage.local.set({ [SYNCED_OPEN_COUNTS_KEY]: counts });
+  }
+
+  /**
+   * 读取上次同步完成时各标签页的打开次数
+   */
+  private async loadSyncedOpenCounts(): Promise<Map<string, number>> {
+    const result = await chrome.storage.local.get(SYNCED_OPEN_COUNTS_KEY);
+    return new Map(Object.entries((result[SYNCED_OPEN_COUNTS_KEY] as Record<string, number> | undefined) || {}));
+  }
+
   /**
    * 生成数据版本
    */
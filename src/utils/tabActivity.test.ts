@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { mergeTabActivity } from './tabActivity.js';
+
+describe('mergeTabActivity', () => {
+  it('取较早的保存时间和较晚的最后打开时间', () => {
+    const local = { addedAt: '2024-01-02T00:00:00.000Z', lastOpenedAt: '2024-02-01T00:00:00.000Z', openCount: 1 };
+    const remote = { addedAt: '2024-01-01T00:00:00.000Z', lastOpenedAt: '2024-03-01T00:00:00.000Z', openCount: 1 };
+
+    expect(mergeTabActivity(local, remote)).toMatchObject({
+      addedAt: '2024-01-01T00:00:00.000Z',
+      lastOpenedAt: '2024-03-01T00:00:00.000Z'
+    });
+  });
+
+  it('没有上次同步的记录时取较大的打开次数', () => {
+    expect(mergeTabActivity({ openCount: 3 }, { openCount: 5 }).openCount).toBe(5);
+  });
+
+  it('有上次同步的记录时累加两端各自新增的次数', () => {
+    expect(mergeTabActivity({ openCount: 3 }, { openCount: 5 }, 2).openCount).toBe(6);
+  });
+
+  it('某一端的次数低于基准时不低于两端中较大的次数', () => {
+    expect(mergeTabActivity({ openCount: 0 }, { openCount: 4 }, 3).openCount).toBe(4);
+  });
+
+  it('两端都没有打开次数时保持缺失', () => {
+    expect(mergeTabActivity({}, {}).openCount).toBeUndefined();
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * 标签页活动记录
+ * 根据保存时间、最后打开时间和打开次数筛选、排序已保存的标签页
+ */
+
+import type { TabData } from '../types/background.js';
+
+/** 参与统计的标签页字段 */
+type TabActivity = Pick<TabData, 'addedAt' | 'lastOpenedAt' | 'openCount'>;
+
+/** 一天的毫秒数 */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** "保存已久"筛选的天数 */
+export const STALE_TAB_DAYS = 30;
+
+/**
+ * 将 ISO 时间字符串转换为时间戳
+ * @param time 时间字符串（可选）
+ * @returns 时间戳，缺失或无效时返回 0
+ */
+function toTimestamp(time?: string): number {
+  const timestamp = time ? Date.parse(time) : NaN;
+  return Number.isNaN(timestamp) ? 0 : timestamp;
+}
+
+/**
+ * 检查标签页保存后是否从未被重新打开
+ * @param tab 标签页
+ */
+export function isNeverReopened(tab: TabActivity): boolean {
+  return !tab.openCount;
+}
+
+/**
+ * 检查标签页是否在指定天数之前保存
+ * 没有保存时间的标签页不匹配
+ * @param tab 标签页
+ * @param days 天数
+ */
+export function isSavedBefore(tab: TabActivity, days: number): boolean {
+  const addedAt = toTimestamp(tab.addedAt);
+  return addedAt > 0 && addedAt < Date.now() - days * DAY_MS;
+}
+
+/**
+ * 获取一组标签页中最近一次被打开的时间
+ * @param tabs 标签页列表
+ * @returns 时间戳，从未打开时返回 0
+ */
+export function getLastOpenedTime(tabs: TabActivity[]): number {
+  return tabs.reduce((latest, tab) => Math.max(latest, toTimestamp(tab.lastOpenedAt)), 0);
+}
+
+/**
+ * 获取一组标签页被打开的总次数
+ * @param tabs 标签页列表
+ */
+export function getTotalOpenCount(tabs: TabActivity[]): number {
+  return tabs.reduce((total, tab) => total + (tab.openCount ?? 0), 0);
+}
+
+/**
+ * 生成标签页活动的说明文字，如"保存于 2024/1/1 · 打开 3 次 · 最后打开于 2024/2/1"
+ * @param tab 标签页
+ * @returns 说明文字
+ */
+export function formatTabActivity(tab: TabActivity): string {
+  const parts: string[] = [];
+  const addedAt = toTimestamp(tab.addedAt);
+  const lastOpenedAt = toTimestamp(tab.lastOpenedAt);
+
+  if (addedAt > 0) {
+    parts.push(`保存于 ${new Date(addedAt).toLocaleDateString('zh-CN')}`);
+  }
+  parts.push(tab.openCount ? `打开 ${tab.openCount} 次` : '从未重新打开');
+  if (lastOpenedAt > 0) {
+    parts.push(`最后打开于 ${new Date(lastOpenedAt).toLocaleDateString('zh-CN')}`);
+  }
+
+  return parts.join(' · ');
+}
+
+/**
+ * 合并两台设备上同一标签页的活动记录
+ * 取较早的保存时间和较晚的最后打开时间；打开次数为上次同步时的次数加上两端各自新增的次数，
+ * 没有上次同步的记录时取较大的打开次数（可能少于实际次数）
+ * @param local 本地标签页
+ * @param remote 远程标签页
+ * @param baseOpenCount 上次同步完成时的打开次数（可选）
+ * @returns 合并后的活动记录
+ */
+export function mergeTabActivity(local: TabActivity, remote: TabActivity, baseOpenCount?: number): TabActivity {
+  const localAdded = toTimestamp(local.addedAt);
+  const remoteAdded = toTimestamp(remote.addedAt);
+  const useRemoteAdded = remoteAdded > 0 && (localAdded === 0 || remoteAdded < localAdded);
+  const useRemoteOpened = toTimestamp(remote.lastOpenedAt) > toTimestamp(local.lastOpenedAt);
+  const localCount = local.openCount ?? 0;
+  const remoteCount = remote.openCount ?? 0;
+  // 某一端的次数低于基准（如数据被重置）时新增次数无法计算，不低于两端中较大的次数
+  const openCount =
+    baseOpenCount === undefined
+      ? Math.max(localCount, remoteCount)
+      : Math.max(localCount, remoteCount, localCount + remoteCount - baseOpenCount);
+
+  return {
+    addedAt: useRemoteAdded ? remote.addedAt : local.addedAt,
+    lastOpenedAt: useRemoteOpened ? remote.lastOpenedAt : local.lastOpenedAt,
+    openCount: local.openCount === undefined && remote.openCount === undefined ? undefined : openCount
+  };
+}
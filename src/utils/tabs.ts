@@ -3,8 +3,25 @@
  * 提供标签页操作的通用功能
  */
 
-import type { TabData, TabGroup, ChromeTab } from '../types/background.js'
-import { generateFavIconUrl, shouldExcludeUrl } from './storage.js'
+import type {
+  TabData,
+  TabGroup,
+  ChromeTab,
+  RestoreOptions,
+  WindowLayout,
+  AggregateScope,
+  DomainSplitOptions,
+  NativeTabGroup,
+  NativeGroupStyle,
+  ExcludeRule,
+  RestoreTask
+} from '../types/background.js'
+import { generateFavIconUrl, generateUuid } from './storage.js'
+import { shouldExcludeUrl } from './excludeRules.js'
+import { buildLazyTabUrl, parseLazyTabUrl } from './lazyTab.js'
+
+/** 不属于任何原生标签组时的 groupId（chrome.tabGroups.TAB_GROUP_ID_NONE） */
+const NO_NATIVE_GROUP = -1
 
 /**
  * 标签页管理器
@@ -39,15 +56,102 @@ export class TabManager {
     }
   }
 
+  /**
+   * 规范化URL，用于判断两个地址是否指向同一页面
+   * 忽略锚点和路径末尾的斜杠，无法解析时原样返回
+   * @param url 原始URL
+   * @returns 规范化后的URL
+   */
+  static normalizeUrl(url: string): string {
+    try {
+      const parsed = new URL(url)
+      const path = parsed.pathname.length > 1 ? parsed.pathname.replace(/\/+$/, '') : parsed.pathname
+      return `${parsed.protocol}//${parsed.host}${path}${parsed.search}`
+    } catch {
+      return url
+    }
+  }
+
+  /**
+   * 按窗口对标签页进行分组
+   * @param tabs 标签页列表
+   * @returns 以窗口ID为键的标签页映射（保持窗口出现顺序）
+   */
+  static groupTabsByWindow(tabs: ChromeTab[]): Map<number, ChromeTab[]> {
+    const windows = new Map<number, ChromeTab[]>()
+    tabs.forEach((tab) => {
+      const windowTabs = windows.get(tab.windowId) || []
+      windowTabs.push(tab)
+      windows.set(tab.windowId, windowTabs)
+    })
+    return windows
+  }
+
+  /**
+   * 获取窗口的布局信息
+   * @param windowId 窗口ID
+   * @returns 窗口布局，获取失败时返回 undefined
+   */
+  static async getWindowLayout(windowId: number): Promise<WindowLayout | undefined> {
+    try {
+      const window = await chrome.windows.get(windowId)
+      return {
+        left: window.left,
+        top: window.top,
+        width: window.width,
+        height: window.height,
+        state: window.state
+      }
+    } catch (error) {
+      console.error(`Failed to get window layout for ID ${windowId}:`, error)
+      return undefined
+    }
+  }
+
+  /**
+   * 按聚合范围选取窗口中的标签页
+   * @param tabs 同一窗口的标签页列表
+   * @param scope 聚合范围
+   * @returns 范围内的标签页列表
+   */
+  static selectTabsByScope(tabs: ChromeTab[], scope: AggregateScope): ChromeTab[] {
+    const activeTab = tabs.find((tab) => tab.active)
+
+    switch (scope) {
+      case 'highlighted':
+        return tabs.filter((tab) => tab.highlighted)
+      case 'left':
+        return activeTab ? tabs.filter((tab) => tab.index < activeTab.index) : []
+      case 'right':
+        return activeTab ? tabs.filter((tab) => tab.index > activeTab.index) : []
+      case 'others':
+        return tabs.filter((tab) => !tab.active)
+      case 'all':
+      default:
+        return tabs
+    }
+  }
+
+  /**
+   * 将尚未加载的延迟加载占位页还原为原标签页的地址、标题和图标
+   * @param tab Chrome标签页对象
+   * @returns 还原后的标签页（不是占位页时原样返回）
+   */
+  static resolveLazyTab(tab: ChromeTab): ChromeTab {
+    const info = parseLazyTabUrl(tab.url)
+    return info ? { ...tab, url: info.url, title: info.title, favIconUrl: info.favIconUrl } : tab
+  }
+
   /**
    * 过滤可保存的标签页
+   * 延迟加载占位页按其原地址参与过滤，返回的标签页同样使用原地址
    * @param tabs 原始标签页列表
-   * @param excludeList 排除列表
+   * @param excludeRules 排除规则
    * @param includePinned 是否包含固定标签页
    * @returns 过滤后的标签页列表
    */
-  static filterSaveableTabs(tabs: ChromeTab[], excludeList: string[], includePinned = false): ChromeTab[] {
-    return tabs.filter((tab: ChromeTab): boolean => {
+  static filterSaveableTabs(tabs: ChromeTab[], excludeRules: ExcludeRule[], includePinned = false): ChromeTab[] {
+    return tabs.map((tab) => this.resolveLazyTab(tab)).filter((tab: ChromeTab): boolean => {
       // 排除固定的标签页（除非明确包含）
       if (!includePinned && tab.pinned) {
         return false
@@ -58,8 +162,8 @@ export class TabManager {
         return false
       }
 
-      // 排除设置中的域名
-      if (shouldExcludeUrl(tab.url, excludeList)) {
+      // 排除匹配排除规则的URL
+      if (shouldExcludeUrl(tab.url, excludeRules)) {
         return false
       }
 
@@ -79,10 +183,17 @@ export class TabManager {
    */
   static chromeTabToTabData(tab: ChromeTab): TabData {
     return {
+      uid: generateUuid(),
       id: tab.id,
       title: tab.title || '未命名标签页',
       url: tab.url,
-      favIconUrl: tab.favIconUrl || generateFavIconUrl(tab.url)
+      favIconUrl: tab.favIconUrl || generateFavIconUrl(tab.url),
+      nativeGroupId: tab.groupId !== undefined && tab.groupId !== NO_NATIVE_GROUP ? tab.groupId : undefined,
+      index: tab.index,
+      pinned: tab.pinned,
+      active: tab.active,
+      addedAt: new Date().toISOString(),
+      openCount: 0
     }
   }
 
@@ -95,64 +206,313 @@ export class TabManager {
     return tabs.map((tab) => this.chromeTabToTabData(tab))
   }
 
+  /**
+   * 读取标签页所属原生标签组的标题、颜色和折叠状态
+   * @param tabs 已转换的标签页列表
+   * @returns 原生标签组列表，没有时返回 undefined
+   */
+  static async captureNativeGroups(tabs: TabData[]): Promise<NativeTabGroup[] | undefined> {
+    const groupIds = new Set(tabs.map((tab) => tab.nativeGroupId).filter((id) => id !== undefined) as number[])
+    const nativeGroups: NativeTabGroup[] = []
+
+    for (const groupId of groupIds) {
+      try {
+        const group = await chrome.tabGroups.get(groupId)
+        nativeGroups.push({
+          id: group.id,
+          title: group.title,
+          color: group.color,
+          collapsed: group.collapsed
+        })
+      } catch (error) {
+        console.error(`Failed to get native tab group ${groupId}:`, error)
+      }
+    }
+
+    return nativeGroups.length > 0 ? nativeGroups : undefined
+  }
+
   /**
    * 恢复标签页
    * @param tabs 要恢复的标签页列表
-   * @param openInNewWindow 是否在新窗口中打开
+   * @param options 恢复选项
    * @returns 创建的标签页ID列表
    */
-  static async restoreTabs(tabs: TabData[], openInNewWindow = false): Promise<number[]> {
+  static async restoreTabs(tabs: TabData[], options: RestoreOptions = {}): Promise<number[]> {
     try {
-      const createdTabIds: number[] = []
+      const task = this.createRestoreTask(tabs, options)
+      await this.restoreNextTabs(task, task.tabs.length)
+      await this.finishRestoreTask(task)
 
-      if (openInNewWindow && tabs.length > 0) {
-        // 在新窗口中打开所有标签页
-        const window = await chrome.windows.create({
-          url: tabs[0].url,
-          focused: true
-        })
+      console.log(`Restored ${tabs.length} tabs`)
+      return task.createdTabIds.filter((id) => id !== null) as number[]
+    } catch (error) {
+      console.error('Error restoring tabs:', error)
+      throw error
+    }
+  }
+
+  /**
+   * 创建恢复任务
+   * 任务记录恢复进度，可以分批执行，也可以在中断后继续
+   * @param tabs 要恢复的标签页列表
+   * @param options 恢复选项
+   * @returns 恢复任务
+   */
+  static createRestoreTask(tabs: TabData[], options: RestoreOptions = {}): RestoreTask {
+    return {
+      // 按保存时的位置排序，与已创建标签页按下标一一对应
+      tabs: this.sortTabsByPosition(tabs),
+      options,
+      next: 0,
+      createdTabIds: []
+    }
+  }
+
+  /**
+   * 继续执行恢复任务，最多创建指定数量的标签页
+   * 在新窗口中恢复时，第一个标签页随新窗口一起创建
+   * @param task 恢复任务（原地更新进度）
+   * @param count 本次最多创建的标签页数量
+   */
+  static async restoreNextTabs(task: RestoreTask, count: number): Promise<void> {
+    const end = Math.min(task.next + count, task.tabs.length)
+
+    while (task.next < end) {
+      const tabData = task.tabs[task.next]
+      const url = this.getRestoreUrl(task, task.next)
+      let createdTab: chrome.tabs.Tab | undefined
+
+      if (task.next === 0 && task.options.openInNewWindow) {
+        const window = await this.createWindow(url, task.options.windowLayout)
 
         // 检查窗口是否创建成功
         if (!window?.id) {
           throw new Error('Failed to create new window')
         }
 
-        if (window.tabs && window.tabs[0]?.id) {
-          createdTabIds.push(window.tabs[0].id)
-        }
-
-        // 在同一窗口中打开其余标签页
-        for (let i = 1; i < tabs.length; i++) {
-          const tab = await chrome.tabs.create({
-            url: tabs[i].url,
-            windowId: window.id,
-            active: false
-          })
-          if (tab.id) {
-            createdTabIds.push(tab.id)
-          }
+        task.windowId = window.id
+        createdTab = window.tabs?.[0]
+        if (createdTab?.id && tabData.pinned) {
+          await chrome.tabs.update(createdTab.id, { pinned: true })
         }
       } else {
-        // 在当前窗口中打开标签页
-        for (const tabData of tabs) {
-          const tab = await chrome.tabs.create({
-            url: tabData.url,
-            active: false
-          })
-          if (tab.id) {
-            createdTabIds.push(tab.id)
-          }
+        // 第一个标签页打开在指定窗口（默认当前窗口），其余标签页跟随第一个标签页所在的窗口
+        createdTab = await chrome.tabs.create({
+          url,
+          windowId: task.windowId ?? task.options.windowId,
+          pinned: tabData.pinned,
+          active: false
+        })
+        task.windowId = task.windowId ?? createdTab.windowId
+      }
+
+      task.createdTabIds.push(createdTab?.id ?? null)
+      task.next++
+    }
+
+    // 替换窗口时，新标签页打开后再关闭原标签页，避免窗口因没有标签页而关闭
+    if (task.next > 0) {
+      await this.closeReplacedTabs(task)
+    }
+  }
+
+  /**
+   * 关闭替换窗口时需要关闭的原标签页（只关闭一次）
+   * @param task 恢复任务
+   */
+  private static async closeReplacedTabs(task: RestoreTask): Promise<void> {
+    const replaceTabIds = task.options.replaceTabIds
+    if (replaceTabIds?.length) {
+      task.options.replaceTabIds = []
+      await Promise.all(replaceTabIds.map((tabId) => chrome.tabs.remove(tabId).catch(() => undefined)))
+    }
+  }
+
+  /**
+   * 完成恢复任务
+   * 设置窗口状态、重建原生标签组并激活保存时的活动标签页
+   * @param task 已创建全部标签页的恢复任务
+   */
+  static async finishRestoreTask(task: RestoreTask): Promise<void> {
+    if (task.options.adoptTabIds?.length) {
+      await this.adoptTabs(task, task.options.adoptTabIds)
+    }
+
+    // 去重后没有需要新建的标签页时，原标签页尚未关闭（移入的已打开标签页已在窗口中）
+    await this.closeReplacedTabs(task)
+
+    // 最大化、全屏等状态需要在窗口创建后单独设置
+    const state = task.options.openInNewWindow ? task.options.windowLayout?.state : undefined
+    if (task.windowId !== undefined && state && state !== 'normal') {
+      await chrome.windows.update(task.windowId, { state })
+    }
+
+    if (task.options.nativeGroups?.length) {
+      await this.restoreNativeGroups(task, task.options.nativeGroups)
+    }
+
+    if (task.options.groupStyle) {
+      await this.applyGroupStyle(task, task.options.groupStyle)
+    }
+
+    // 激活保存时的活动标签页
+    const activeTabId = task.createdTabIds[task.tabs.findIndex((tab) => tab.active)]
+    if (activeTabId) {
+      await chrome.tabs.update(activeTabId, { active: true })
+    }
+  }
+
+  /**
+   * 获取恢复时要打开的地址
+   * 延迟恢复时只立即加载活动标签页（没有时为第一个），其余打开占位页
+   * @param task 恢复任务
+   * @param index 标签页下标
+   * @returns 要打开的地址
+   */
+  private static getRestoreUrl(task: RestoreTask, index: number): string {
+    const tab = task.tabs[index]
+    const eagerIndex = Math.max(task.tabs.findIndex((t) => t.active), 0)
+    return task.options.lazy && index !== eagerIndex ? buildLazyTabUrl(tab) : tab.url
+  }
+
+  /**
+   * 合并多个分组的标签页，在同一个恢复任务中恢复
+   * 保持分组的先后顺序，位置按合并后的顺序重新编号，只保留第一个活动标签页；
+   * 来自不同分组的原生标签组ID可能重复，不重建原生标签组
+   * @param tabLists 各分组的标签页列表
+   * @returns 合并后的新列表
+   */
+  static flattenGroupTabs(tabLists: TabData[][]): TabData[] {
+    const tabs = tabLists.flatMap((tabList) => this.sortTabsByPosition(tabList))
+    const activeIndex = tabs.findIndex((tab) => tab.active)
+    return tabs.map((tab, index) => ({ ...tab, index, active: index === activeIndex, nativeGroupId: undefined }))
+  }
+
+  /**
+   * 按保存时的位置对标签页排序
+   * 缺少位置信息的旧数据保持原有顺序
+   * @param tabs 标签页列表
+   * @returns 排序后的新列表
+   */
+  private static sortTabsByPosition(tabs: TabData[]): TabData[] {
+    if (tabs.some((tab) => tab.index === undefined)) {
+      return tabs
+    }
+    return [...tabs].sort((a, b) => (a.index as number) - (b.index as number))
+  }
+
+  /**
+   * 重建原生标签组
+   * 恢复标签组的标题、颜色和折叠状态，单个标签组失败不影响其他标签组
+   * @param task 已创建标签页的恢复任务
+   * @param nativeGroups 需要重建的原生标签组
+   */
+  private static async restoreNativeGroups(task: RestoreTask, nativeGroups: NativeTabGroup[]): Promise<void> {
+    for (const nativeGroup of nativeGroups) {
+      // 固定标签页不能加入标签组
+      const memberIds = task.createdTabIds.filter(
+        (id, index) => id !== null && !task.tabs[index].pinned && task.tabs[index].nativeGroupId === nativeGroup.id
+      ) as number[]
+
+      if (memberIds.length === 0) {
+        continue
+      }
+
+      try {
+        const groupId = await chrome.tabs.group({
+          tabIds: memberIds as [number, ...number[]],
+          createProperties: { windowId: task.windowId }
+        })
+        await chrome.tabGroups.update(groupId, {
+          title: nativeGroup.title,
+          color: nativeGroup.color,
+          collapsed: nativeGroup.collapsed
+        })
+      } catch (error) {
+        console.error(`Failed to restore native tab group ${nativeGroup.title}:`, error)
+      }
+    }
+  }
+
+  /**
+   * 将不属于任何重建的原生标签组的标签页放入按分组颜色创建的原生标签组
+   * 失败时只记录错误，不影响恢复结果
+   * @param task 已创建标签页的恢复任务
+   * @param style 原生标签组样式
+   */
+  private static async applyGroupStyle(task: RestoreTask, style: NativeGroupStyle): Promise<void> {
+    const restoredGroupIds = new Set((task.options.nativeGroups || []).map((group) => group.id))
+    // 固定标签页不能加入标签组
+    const memberIds = task.createdTabIds.filter((id, index) => {
+      const tab = task.tabs[index]
+      return id !== null && !tab.pinned && (tab.nativeGroupId === undefined || !restoredGroupIds.has(tab.nativeGroupId))
+    }) as number[]
+
+    if (memberIds.length === 0) {
+      return
+    }
+
+    try {
+      const groupId = await chrome.tabs.group({
+        tabIds: memberIds as [number, ...number[]],
+        createProperties: { windowId: task.windowId }
+      })
+      await chrome.tabGroups.update(groupId, { title: style.title, color: style.color })
+    } catch (error) {
+      console.error(`Failed to apply group style ${style.title}:`, error)
+    }
+  }
+
+  /**
+   * 将已打开的标签页移入恢复的目标窗口
+   * 单个标签页失败不影响恢复结果
+   * @param task 恢复任务
+   * @param tabIds 要移动的标签页ID
+   */
+  private static async adoptTabs(task: RestoreTask, tabIds: number[]): Promise<void> {
+    try {
+      let remaining = tabIds
+
+      // 没有新建任何标签页时，目标窗口尚未确定
+      if (task.windowId === undefined) {
+        if (task.options.openInNewWindow) {
+          const window = await chrome.windows.create({ tabId: tabIds[0], focused: true })
+          task.windowId = window?.id
+          remaining = tabIds.slice(1)
+        } else {
+          task.windowId = task.options.windowId ?? (await chrome.windows.getLastFocused()).id
         }
       }
 
-      console.log(`Restored ${tabs.length} tabs`)
-      return createdTabIds
+      if (remaining.length > 0) {
+        await chrome.tabs.move(remaining, { windowId: task.windowId, index: -1 })
+      }
     } catch (error) {
-      console.error('Error restoring tabs:', error)
-      throw error
+      console.error('Failed to move open tabs into target window:', error)
     }
   }
 
+  /**
+   * 创建新窗口
+   * @param url 第一个标签页的URL
+   * @param layout 窗口布局（可选）
+   * @returns 创建的窗口
+   */
+  private static async createWindow(url: string, layout?: WindowLayout): Promise<chrome.windows.Window | undefined> {
+    // 只有普通状态的窗口才能指定位置和尺寸
+    const bounds =
+      layout && (!layout.state || layout.state === 'normal')
+        ? { left: layout.left, top: layout.top, width: layout.width, height: layout.height }
+        : {}
+
+    return chrome.windows.create({
+      url,
+      focused: true,
+      ...bounds
+    })
+  }
+
   /**
    * 关闭标签页
    * @param tabIds 要关闭的标签页ID列表
@@ -273,6 +633,12 @@ export class TabManager {
   }
 }
 
+/** 无法归类的标签页所在分组的键名 */
+export const MISC_DOMAIN_KEY = '其他'
+
+/** 常见的二级域名后缀（如 co.uk、com.cn），用于计算站点族 */
+const SECOND_LEVEL_LABELS = new Set(['com', 'co', 'net', 'org', 'gov', 'edu', 'ac'])
+
 /**
  * 分组管理相关工具函数
  */
@@ -316,33 +682,86 @@ export class GroupManager {
     })
   }
 
+  /**
+   * 获取主机名所属的站点族（可注册域名）
+   * 例如 gist.github.com 和 github.com 同属 github.com
+   * @param hostname 主机名
+   * @returns 站点族
+   */
+  static getSiteFamily(hostname: string): string {
+    const labels = hostname.split('.')
+    const tld = labels[labels.length - 1]
+
+    // IP 地址和单级主机名（如 localhost）保持原样
+    if (labels.length <= 2 || /^\d+$/.test(tld)) {
+      return hostname
+    }
+
+    const keep = tld.length === 2 && SECOND_LEVEL_LABELS.has(labels[labels.length - 2]) ? 3 : 2
+    return labels.slice(-keep).join('.')
+  }
+
   /**
    * 按域名对标签页进行分组
    * @param tabs 标签页列表
+   * @param bySiteFamily 是否按站点族合并子域名
    * @returns 按域名分组的标签页
    */
-  static groupTabsByDomain(tabs: TabData[]): Record<string, TabData[]> {
-    const groups: Record<string, TabData[]> = {}
+  static groupTabsByDomain<T extends Pick<TabData, 'url'>>(tabs: T[], bySiteFamily = false): Record<string, T[]> {
+    const groups: Record<string, T[]> = {}
 
     tabs.forEach((tab) => {
       try {
-        const domain = new URL(tab.url).hostname
+        const hostname = new URL(tab.url).hostname
+        const domain = bySiteFamily ? this.getSiteFamily(hostname) : hostname
         if (!groups[domain]) {
           groups[domain] = []
         }
         groups[domain].push(tab)
       } catch {
         // 无效URL，归类到"其他"
-        if (!groups['其他']) {
-          groups['其他'] = []
+        if (!groups[MISC_DOMAIN_KEY]) {
+          groups[MISC_DOMAIN_KEY] = []
         }
-        groups['其他'].push(tab)
+        groups[MISC_DOMAIN_KEY].push(tab)
       }
     })
 
     return groups
   }
 
+  /**
+   * 将标签页拆分为按域名划分的分组
+   * 标签页数量不足 minGroupSize 的域名统一归入"其他"分组（排在最后）
+   * @param tabs 标签页列表
+   * @param options 拆分选项
+   * @returns 域名与对应标签页的列表，按标签页数量降序
+   */
+  static splitTabsByDomain<T extends Pick<TabData, 'url'>>(
+    tabs: T[],
+    options: DomainSplitOptions
+  ): { domain: string; tabs: T[] }[] {
+    const byDomain = this.groupTabsByDomain(tabs, options.bySiteFamily)
+    const result: { domain: string; tabs: T[] }[] = []
+    const miscTabs: T[] = []
+
+    Object.entries(byDomain).forEach(([domain, domainTabs]) => {
+      if (domain === MISC_DOMAIN_KEY || domainTabs.length < options.minGroupSize) {
+        miscTabs.push(...domainTabs)
+      } else {
+        result.push({ domain, tabs: domainTabs })
+      }
+    })
+
+    result.sort((a, b) => b.tabs.length - a.tabs.length)
+
+    if (miscTabs.length > 0) {
+      result.push({ domain: MISC_DOMAIN_KEY, tabs: miscTabs })
+    }
+
+    return result
+  }
+
   /**
    * 计算分组的统计信息
    * @param group 分组对象
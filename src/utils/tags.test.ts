@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { mergeTagFields, mergeTags, normalizeTags } from './tags.js';
+
+describe('normalizeTags', () => {
+  it('去掉 #、首尾空白、空标签和重复标签并转为小写', () => {
+    expect(normalizeTags(['#Work', ' work ', '', '##Read Later'])).toEqual(['work', 'read later']);
+  });
+});
+
+describe('mergeTags', () => {
+  it('两组都为空时返回 undefined', () => {
+    expect(mergeTags([], undefined)).toBeUndefined();
+  });
+});
+
+describe('mergeTagFields', () => {
+  it('以较晚修改标签的一端为准', () => {
+    const local = { tags: ['a'], tagsUpdatedAt: '2024-01-02T00:00:00.000Z' };
+    const remote = { tags: ['b'], tagsUpdatedAt: '2024-01-01T00:00:00.000Z' };
+
+    expect(mergeTagFields(local, remote)).toEqual(local);
+    expect(mergeTagFields(remote, local)).toEqual(local);
+  });
+
+  it('较晚的一端删除了标签时不被另一端恢复', () => {
+    const local = { tags: ['a', 'b'], tagsUpdatedAt: '2024-01-01T00:00:00.000Z' };
+    const remote = { tags: undefined, tagsUpdatedAt: '2024-01-02T00:00:00.000Z' };
+
+    expect(mergeTagFields(local, remote).tags).toBeUndefined();
+  });
+
+  it('两端都没有修改记录时取并集', () => {
+    expect(mergeTagFields({ tags: ['a'] }, { tags: ['b', 'A'] })).toEqual({
+      tags: ['a', 'b'],
+      tagsUpdatedAt: undefined
+    });
+  });
+});
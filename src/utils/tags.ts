@@ -0,0 +1,105 @@
+/**
+ * 标签
+ * 分组和标签页都可以添加标签，分组的标签对其中所有标签页生效
+ * 标签统一去掉开头的 # 和首尾空白并转为小写，按规范化后的值比较
+ */
+
+import type { TabData, TabGroup } from '../types/background.js';
+
+/** 带标签的标签页字段 */
+type TaggedTab = Pick<TabData, 'tags'>;
+
+/** 参与同步合并的标签字段 */
+type TagFields = Pick<TabData, 'tags' | 'tagsUpdatedAt'>;
+
+/** 带标签的分组字段 */
+type TaggedGroup<T extends TaggedTab = TaggedTab> = Pick<TabGroup, 'tags'> & { tabs: T[] };
+
+/**
+ * 标签使用统计
+ */
+export interface TagCount {
+  /** 标签 */
+  tag: string;
+  /** 带有该标签的标签页数量（含通过分组标签获得的） */
+  count: number;
+}
+
+/**
+ * 规范化单个标签
+ * @param tag 用户输入的标签
+ * @returns 规范化后的标签，可能为空字符串
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').trim().toLowerCase();
+}
+
+/**
+ * 规范化标签列表：去掉空标签和重复标签
+ * @param tags 标签列表
+ * @returns 规范化后的标签列表
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(normalizeTag).filter(Boolean))];
+}
+
+/**
+ * 合并两组标签（取并集）
+ * @param a 标签列表
+ * @param b 标签列表
+ * @returns 合并后的标签列表，两组都为空时返回 undefined
+ */
+export function mergeTags(a: string[] = [], b: string[] = []): string[] | undefined {
+  const merged = normalizeTags([...a, ...b]);
+  return merged.length > 0 ? merged : undefined;
+}
+
+/**
+ * 合并两台设备上同一分组或标签页的标签
+ * 以较晚修改标签的一端为准（包括删除标签）；两端都没有修改记录（如旧数据）时取并集
+ * @param local 本地的分组或标签页
+ * @param remote 远程的分组或标签页
+ * @returns 合并后的标签和修改时间
+ */
+export function mergeTagFields(local: TagFields, remote: TagFields): TagFields {
+  const localTime = local.tagsUpdatedAt ? Date.parse(local.tagsUpdatedAt) || 0 : 0;
+  const remoteTime = remote.tagsUpdatedAt ? Date.parse(remote.tagsUpdatedAt) || 0 : 0;
+
+  if (localTime === 0 && remoteTime === 0) {
+    return { tags: mergeTags(local.tags, remote.tags), tagsUpdatedAt: undefined };
+  }
+
+  const latest = remoteTime > localTime ? remote : local;
+  return { tags: latest.tags, tagsUpdatedAt: latest.tagsUpdatedAt };
+}
+
+/**
+ * 获取分组中带有指定标签的标签页
+ * 分组本身带有该标签时返回全部标签页
+ * @param group 分组
+ * @param tag 规范化后的标签
+ */
+export function getTaggedTabs<T extends TaggedTab>(group: TaggedGroup<T>, tag: string): T[] {
+  if (group.tags?.includes(tag)) {
+    return group.tabs;
+  }
+  return group.tabs.filter((tab) => tab.tags?.includes(tag));
+}
+
+/**
+ * 统计所有分组中使用的标签
+ * @param groups 分组列表
+ * @returns 按标签名排序的统计结果
+ */
+export function countTags(groups: TaggedGroup[]): TagCount[] {
+  const tags = new Set<string>();
+  groups.forEach((group) => {
+    group.tags?.forEach((tag) => tags.add(tag));
+    group.tabs.forEach((tab) => tab.tags?.forEach((tag) => tags.add(tag)));
+  });
+
+  return [...tags].sort().map((tag) => ({
+    tag,
+    count: groups.reduce((total, group) => total + getTaggedTabs(group, tag).length, 0)
+  }));
+}
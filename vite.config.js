@@ -29,6 +29,7 @@ export default defineConfig(({ mode }) => ({
         popup: resolve(__dirname, 'src/popup/main.tsx'),
         options: resolve(__dirname, 'src/options/main.tsx'),
         tab_list: resolve(__dirname, 'src/tab_list/main.tsx'),
+        lazy_tab: resolve(__dirname, 'src/lazy_tab/main.ts'),
         background: resolve(__dirname, 'src/background.ts'),
       },
       output: {
@@ -76,6 +77,10 @@ export default defineConfig(({ mode }) => ({
         {
           src: 'src/tab_list.html',
           dest: '.'
+        },
+        {
+          src: 'src/lazy_tab.html',
+          dest: '.'
         }
       ],
     }),
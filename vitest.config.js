@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// 单元测试配置（不使用 vite.config.js 中的构建插件）
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts']
+  }
+});